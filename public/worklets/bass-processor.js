@@ -1,101 +1,376 @@
-
 // public/worklets/bass-processor.js
 
+import { EventQueue } from './event-queue.js';
+import { LoadMeter } from './load-meter.js';
+
 /**
- * A simplified bass synthesizer processor.
- * It only handles noteOn, noteOff, and preset changes.
- * All timing and scheduling is handled by the main thread.
+ * A monophonic bass synthesizer with up to two oscillator layers.
+ * Each layer has its own waveform, envelope and portamento, runs through a resonant low-pass
+ * filter and a soft-clipping drive, and is placed in the stereo field; the second layer starts
+ * `stagger` seconds after the first and is detuned slightly, which gives layered presets their
+ * width and movement. The technique ('setMode') decides how one note leads into the next:
+ *
+ * - arpeggio:   every note is plucked again; the pitch jumps.
+ * - portamento: legato; a note that arrives while another sounds slides to its pitch.
+ * - glissando:  the pitch runs to the new note in semitone steps.
+ * - glide:      a long, even slide from wherever the last note ended, even after a release.
+ * - pulse:      the note is gated into sixteenth-note pulses at the current tempo.
+ *
+ * Notes, note-offs and tempo changes are posted ahead of time and played on the frame they
+ * are due (see ./event-queue.js). A note-off only releases the note it belongs to.
  */
-class BassProcessor extends AudioWorkletProcessor {
-  constructor() {
-    super();
-    this.phase = 0;
-    this.frequency = 0;
-    this.isActive = false;
 
-    // Default ADSR
+const TWO_PI = 2 * Math.PI;
+const LAYER_DETUNE = 0.05;      // semitones, layer 2 against layer 1
+const LAYER_SPREAD = 0.35;      // how far the two layers sit from the centre
+const LAYER_GAIN = 0.65;        // per layer when two are playing
+const DECLICK = 0.003;          // seconds; the shortest possible fade
+const PLUCK_DECAY = 0.18;       // seconds from the peak of a plucked note to its sustain
+const PLUCK_SUSTAIN = 0.65;     // share of the velocity a plucked note holds
+const PORTAMENTO_TIME = 0.08;   // seconds, the least a portamento slide takes
+const GLIDE_TIME = 0.25;        // seconds, the least a glide takes
+const GLISSANDO_TIME = 0.15;    // seconds for the whole run of steps, at least
+
+const midiToFrequency = (midi) => 440 * Math.pow(2, (midi - 69) / 12);
+const frequencyToMidi = (frequency) => 69 + 12 * Math.log2(frequency / 440);
+
+class BassLayer {
+  constructor() {
+    this.wave = 'sine';
     this.attack = 0.01;
     this.release = 0.1;
+    this.portamento = 0;
+    this.detune = 0;
+    this.pan = 0;
+
+    this.phase = 0;
+    this.pitch = 0;           // sounding pitch, MIDI (fractional while sliding)
+    this.targetPitch = 0;
+    this.slideStep = 0;       // semitones per sample for linear slides
+    this.slideCoeff = 1;      // smoothing factor for exponential slides
+    this.slideShape = 'jump'; // 'jump' | 'exponential' | 'linear' | 'steps'
+    this.stepInterval = 0;    // samples between glissando steps
+    this.stepCounter = 0;
+
+    this.gain = 0;
+    this.stage = 'idle';      // 'idle' | 'attack' | 'decay' | 'sustain' | 'release'
+    this.peak = 0;
+    this.sustain = 0;
+    this.pendingNote = null;  // { pitch, velocity, mode, delay } for a staggered start
+
+    // Topology-preserving state-variable filter
+    this.ic1 = 0;
+    this.ic2 = 0;
+  }
+
+  get isSilent() {
+    return this.stage === 'idle' && this.pendingNote === null;
+  }
+
+  configure(preset, layer) {
+    this.wave = preset[`wave${layer}`] || 'sine';
+    this.attack = Math.max(DECLICK, preset[`attack${layer}`] || 0.01);
+    this.release = Math.max(DECLICK, preset[`release${layer}`] || 0.1);
+    this.portamento = preset[`portamento${layer}`] || 0;
+  }
+
+  noteOn(pitch, velocity, mode, delay) {
+    if (delay > 0) {
+      this.pendingNote = { pitch, velocity, mode, delay };
+      return;
+    }
+    this.pendingNote = null;
+    pitch += this.detune;
+    const sounding = this.stage !== 'idle' && this.stage !== 'release';
+    const hasPitch = this.pitch > 0;
+
+    // Pitch: how this note is reached from the last one.
+    this.targetPitch = pitch;
+    if (!hasPitch) {
+      this.slideShape = 'jump';
+    } else if (mode === 'glide') {
+      const time = Math.max(GLIDE_TIME, this.portamento * 4);
+      this.slideShape = 'linear';
+      this.slideStep = Math.abs(pitch - this.pitch) / (time * sampleRate);
+    } else if (mode === 'glissando' && sounding) {
+      const steps = Math.round(Math.abs(pitch - this.pitch));
+      this.slideShape = steps > 0 ? 'steps' : 'jump';
+      this.stepInterval = Math.max(1, Math.round(Math.max(GLISSANDO_TIME, this.portamento) * sampleRate / Math.max(1, steps)));
+      this.stepCounter = this.stepInterval;
+      this.pitch = Math.round(this.pitch);
+    } else if (mode === 'portamento' && sounding) {
+      this.slideShape = 'exponential';
+      this.slideCoeff = 1 - Math.exp(-1 / (Math.max(PORTAMENTO_TIME, this.portamento) * sampleRate));
+    } else if (this.portamento > 0 && sounding) {
+      // The preset's own slide, whatever the technique.
+      this.slideShape = 'exponential';
+      this.slideCoeff = 1 - Math.exp(-1 / (this.portamento * sampleRate));
+    } else {
+      this.slideShape = 'jump';
+    }
+    if (this.slideShape === 'jump') this.pitch = pitch;
+
+    // Envelope: legato techniques keep a sounding note going, the rest start a new one.
+    const legato = sounding && (mode === 'portamento' || mode === 'glissando' || mode === 'glide');
+    this.peak = velocity;
+    this.sustain = mode === 'arpeggio' ? velocity * PLUCK_SUSTAIN : velocity;
+    // A plucked note restarts from wherever the last one is, so it accents without a click.
+    this.stage = legato && this.gain >= this.sustain ? 'decay' : 'attack';
+  }
+
+  noteOff() {
+    this.pendingNote = null;
+    if (this.stage !== 'idle') this.stage = 'release';
+  }
+
+  stop() {
+    this.pendingNote = null;
+    this.stage = 'idle';
     this.gain = 0;
-    this.targetGain = 0;
-    
-    // Default Filter
-    this.filterState = 0;
-    this.filterCutoff = 20000; // wide open by default
-    this.filterCoeff = 1; // calculated from cutoff
+  }
+
+  advancePitch() {
+    switch (this.slideShape) {
+      case 'exponential':
+        this.pitch += (this.targetPitch - this.pitch) * this.slideCoeff;
+        break;
+      case 'linear':
+        if (Math.abs(this.targetPitch - this.pitch) <= this.slideStep) this.pitch = this.targetPitch;
+        else this.pitch += Math.sign(this.targetPitch - this.pitch) * this.slideStep;
+        break;
+      case 'steps':
+        if (--this.stepCounter <= 0) {
+          this.stepCounter = this.stepInterval;
+          const remaining = this.targetPitch - this.pitch;
+          this.pitch = Math.abs(remaining) <= 1 ? this.targetPitch : this.pitch + Math.sign(remaining);
+        }
+        break;
+      default:
+        this.pitch = this.targetPitch;
+    }
+  }
+
+  advanceEnvelope() {
+    switch (this.stage) {
+      case 'attack':
+        // A note softer than the one it interrupts skips straight to the decay.
+        if (this.gain < this.peak) this.gain = Math.min(this.peak, this.gain + this.peak / (this.attack * sampleRate));
+        else this.stage = 'decay';
+        break;
+      case 'decay':
+        if (this.gain > this.sustain) {
+          this.gain = Math.max(this.sustain, this.gain - Math.max(this.peak - this.sustain, 0.05) / (PLUCK_DECAY * sampleRate));
+        } else {
+          this.gain = this.sustain;
+          this.stage = 'sustain';
+        }
+        break;
+      case 'release':
+        this.gain -= Math.max(this.peak, 0.1) / (this.release * sampleRate);
+        if (this.gain <= 0) {
+          this.gain = 0;
+          this.stage = 'idle';
+        }
+        break;
+    }
+  }
+
+  oscillator() {
+    const position = this.phase / TWO_PI;
+    switch (this.wave) {
+      case 'triangle':
+        return 1 - 4 * Math.abs(position - 0.5);
+      case 'sawtooth':
+        return 1 - 2 * position;
+      default:
+        return Math.sin(this.phase);
+    }
+  }
+
+  // Low-pass with resonance (Zavalishin's TPT state-variable filter).
+  filter(input, coeffs) {
+    const v3 = input - this.ic2;
+    const v1 = coeffs.a1 * this.ic1 + coeffs.a2 * v3;
+    const v2 = this.ic2 + coeffs.a2 * this.ic1 + coeffs.a3 * v3;
+    this.ic1 = 2 * v1 - this.ic1;
+    this.ic2 = 2 * v2 - this.ic2;
+    return v2;
+  }
+
+  render(filterCoeffs, drive) {
+    if (this.pendingNote) {
+      if (--this.pendingNote.delay <= 0) {
+        const { pitch, velocity, mode } = this.pendingNote;
+        this.noteOn(pitch, velocity, mode, 0);
+      }
+    }
+    if (this.stage === 'idle') return 0;
+
+    this.advancePitch();
+    this.advanceEnvelope();
+    this.phase += midiToFrequency(this.pitch) / sampleRate * TWO_PI;
+    if (this.phase >= TWO_PI) this.phase -= TWO_PI;
+
+    let sample = this.filter(this.oscillator(), filterCoeffs);
+    if (drive > 1) sample = Math.tanh(sample * drive) / Math.tanh(drive);
+    return sample * this.gain;
+  }
+}
+
+class BassProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.layers = [new BassLayer(), new BassLayer()];
+    this.layerCount = 1;
+    this.stagger = 0; // seconds before layer 2 follows layer 1
+    this.mode = 'arpeggio';
+    this.events = new EventQueue();
+    this.load = new LoadMeter(this.port);
+    this.noteId = null;
+
+    // Shared filter and drive
+    this.cutoff = 20000; // wide open by default
+    this.filterQ = Math.SQRT1_2;
+    this.drive = 1;
+    this.filterCoeffs = null;
+
+    // Pulse gate
+    this.pulseLength = 0.2; // seconds, a sixteenth note at 75 BPM
+    this.pulsePosition = 0;
+    this.pulseGain = 1;
+    this.pulseSmoothing = 1 - Math.exp(-1 / (DECLICK * sampleRate));
+
+    this.updateFilter();
 
     this.port.onmessage = (e) => {
         const { type, ...data } = e.data;
         switch(type) {
             case 'noteOn':
-                this.frequency = data.frequency;
-                this.targetGain = data.velocity || 0.7;
-                this.isActive = true;
-                break;
             case 'noteOff':
-                this.targetGain = 0; // Start release phase
+            case 'setTempo':
+                this.events.push(e.data);
+                break;
+            case 'allNotesOff':
+                this.events.clear();
+                this.noteId = null;
+                this.layers.forEach(layer => layer.noteOff());
                 break;
             case 'setPreset':
-                this.attack = data.attack1 || 0.01;
-                this.release = data.release1 || 0.1;
-                this.filterCutoff = data.cutoff || 20000;
-                // Add other preset params here if needed
+                this.setPreset(data);
                 break;
             case 'setMode':
-                 // Future implementation for different techniques
+                this.mode = data.mode || 'arpeggio';
                 break;
         }
     };
   }
 
+  handleEvent(event) {
+    switch (event.type) {
+      case 'noteOn':
+        this.noteId = event.id ?? null;
+        this.noteOn(frequencyToMidi(event.frequency), event.velocity || 0.7);
+        break;
+      case 'noteOff':
+        if (event.id !== undefined && event.id !== this.noteId) break;
+        this.layers.forEach(layer => layer.noteOff());
+        break;
+      case 'setTempo':
+        if (event.beatDuration > 0) this.pulseLength = event.beatDuration / 4;
+        break;
+    }
+  }
+
   static get parameterDescriptors() {
     return []; // No custom AudioParams needed for this version
   }
 
-  applyFilter(input) {
-    this.filterState += this.filterCoeff * (input - this.filterState);
-    return this.filterState;
+  setPreset(preset) {
+    this.layerCount = preset.wave2 ? 2 : 1;
+    this.layers[0].configure(preset, 1);
+    this.layers[1].configure(preset, 2);
+    this.layers[1].detune = LAYER_DETUNE;
+    this.layers[0].pan = this.layerCount === 2 ? -LAYER_SPREAD : 0;
+    this.layers[1].pan = LAYER_SPREAD;
+    if (this.layerCount === 1) this.layers[1].stop();
+    this.stagger = preset.stagger || 0;
+    this.cutoff = preset.cutoff || 20000;
+    this.filterQ = preset.filterQ || Math.SQRT1_2;
+    this.drive = 1 + (preset.distortion || 0) * 20;
+    this.updateFilter();
+  }
+
+  updateFilter() {
+    const g = Math.tan(Math.PI * Math.min(this.cutoff, sampleRate * 0.45) / sampleRate);
+    const k = 1 / this.filterQ;
+    const a1 = 1 / (1 + g * (g + k));
+    const a2 = g * a1;
+    this.filterCoeffs = { a1, a2, a3: g * a2 };
+  }
+
+  noteOn(pitch, velocity) {
+    this.pulsePosition = 0;
+    this.layers[0].noteOn(pitch, velocity, this.mode, 0);
+    if (this.layerCount === 2) {
+      this.layers[1].noteOn(pitch, velocity, this.mode, Math.round(this.stagger * sampleRate));
+    }
   }
 
-  generateOsc() {
-      // Simple sine wave for bass
-      return Math.sin(this.phase);
+  // 1 or 0 in sixteenth notes, slewed so the edges do not click.
+  advancePulse() {
+    if (this.mode !== 'pulse') {
+      this.pulseGain = 1;
+      return 1;
+    }
+    this.pulsePosition += 1 / (this.pulseLength * sampleRate);
+    if (this.pulsePosition >= 1) this.pulsePosition -= 1;
+    const target = this.pulsePosition < 0.5 ? 1 : 0;
+    this.pulseGain += (target - this.pulseGain) * this.pulseSmoothing;
+    return this.pulseGain;
   }
 
   process(inputs, outputs, parameters) {
-    const output = outputs[0];
-    
-    this.filterCoeff = 1 - Math.exp(-2 * Math.PI * this.filterCutoff / sampleRate);
-
-    for (let channel = 0; channel < output.length; ++channel) {
-      for (let i = 0; i < output[channel].length; ++i) {
-        let sample = 0;
-
-        if (this.isActive && this.frequency > 0) {
-          this.phase += (this.frequency / sampleRate) * 2 * Math.PI;
-          if (this.phase >= 2 * Math.PI) this.phase -= 2 * Math.PI;
-
-          sample = this.generateOsc();
-          sample = this.applyFilter(sample);
-
-          // Simple linear envelope
-          if (this.gain < this.targetGain) {
-            this.gain = Math.min(this.targetGain, this.gain + 1 / (this.attack * sampleRate));
-          } else if (this.gain > this.targetGain) {
-            this.gain = Math.max(this.targetGain, this.gain - 1 / (this.release * sampleRate));
-          }
-
-          if (this.gain <= 0.0001 && this.targetGain === 0) {
-              this.isActive = false;
-              this.gain = 0;
-          }
-
-          sample *= this.gain;
-        }
+    this.load.begin();
+    const alive = this.render(outputs[0]);
+    this.load.end(outputs[0][0]?.length ?? 128);
+    return alive;
+  }
+
+  render(output) {
+    const left = output[0];
+    const right = output[1];
+    if (!left) return true;
 
-        output[channel][i] = sample;
+    if (this.layers.every(layer => layer.isSilent) && !this.events.hasEventBefore(currentFrame + left.length)) {
+      left.fill(0);
+      if (right) right.fill(0);
+      return true;
+    }
+
+    const layerGain = this.layerCount === 2 ? LAYER_GAIN : 1;
+    for (let i = 0; i < left.length; ++i) {
+      for (let event = this.events.next(currentFrame + i); event; event = this.events.next(currentFrame + i)) {
+        this.handleEvent(event);
+      }
+      const pulse = this.advancePulse();
+      let sampleLeft = 0;
+      let sampleRight = 0;
+      for (let l = 0; l < this.layerCount; l++) {
+        const layer = this.layers[l];
+        const sample = layer.render(this.filterCoeffs, this.drive) * layerGain * pulse;
+        // Equal-power pan, normalised so a centred layer keeps its level.
+        const angle = (layer.pan + 1) * Math.PI / 4;
+        sampleLeft += sample * Math.cos(angle) * Math.SQRT2;
+        sampleRight += sample * Math.sin(angle) * Math.SQRT2;
+      }
+      if (right) {
+        left[i] = sampleLeft;
+        right[i] = sampleRight;
+      } else {
+        left[i] = (sampleLeft + sampleRight) / 2;
       }
     }
+    for (let channel = 2; channel < output.length; ++channel) output[channel].set(left);
 
     return true; // Keep processor alive
   }
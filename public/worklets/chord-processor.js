@@ -1,13 +1,21 @@
 
+import { EventQueue } from './event-queue.js';
+import { LoadMeter } from './load-meter.js';
+
 // A polyphonic AudioWorklet processor for playing chords.
 // It manages a pool of voices internally to play multiple notes at once.
+// Chords and note-offs are posted ahead of time and played on the frame they are due (see
+// ./event-queue.js); a note-off only releases the chord it belongs to.
 
 class ChordProcessor extends AudioWorkletProcessor {
     constructor() {
         super();
         this.voices = [];
         this.MAX_VOICES = 4; // Can play up to 4 notes simultaneously
-        this.delayQueue = [];
+        this.delayQueue = []; // { voice, frame } for the staggered notes of a chord
+        this.events = new EventQueue();
+        this.load = new LoadMeter(this.port);
+        this.chordId = null;
         this.waveType = 'triangle';
         this.cutoff = 1200;
         this.attack = 0.05;
@@ -42,8 +50,32 @@ class ChordProcessor extends AudioWorkletProcessor {
     handleMessage(event) {
         const { type, ...data } = event.data;
 
+        if (type === 'playChord' || type === 'noteOff') {
+            this.events.push(event.data);
+        } else if (type === 'allNotesOff') {
+            this.events.clear();
+            this.chordId = null;
+            this.releaseAllVoices();
+        } else if (type === 'setPreset') {
+            this.waveType = data.wave || this.waveType;
+            this.cutoff = data.cutoff || this.cutoff;
+            this.attack = data.attack || this.attack;
+            this.release = data.release || this.release;
+            this.portamento = data.portamento || 0;
+            this.voices.forEach(v => {
+                v.attack = this.attack;
+                v.release = this.release;
+            });
+        }
+    }
+
+    // `frame` is the frame the event is due on.
+    handleEvent(event, frame) {
+        const { type, ...data } = event;
+
         if (type === 'playChord') {
             this.releaseAllVoices(); // Stop previous chord before starting a new one
+            this.chordId = data.id ?? null;
 
             let sortedNotes = [...data.notes].sort((a, b) => a.midi - b.midi);
             if (data.direction === 'down') sortedNotes.reverse();
@@ -59,27 +91,18 @@ class ChordProcessor extends AudioWorkletProcessor {
                     voice.velocity = data.velocity || 0.7;
                     voice.targetGain = voice.velocity;
                     
-                    const staggerDelay = (data.stagger || 0) * index * this.sampleRate;
+                    const staggerDelay = Math.round((data.stagger || 0) * index * this.sampleRate);
                     if (staggerDelay > 0) {
                          voice.isActive = false;
-                         this.delayQueue.push({ voice: voice, delay: staggerDelay });
+                         this.delayQueue.push({ voice: voice, frame: frame + staggerDelay });
                     } else {
                          voice.isActive = true;
                     }
                 }
             });
         } else if (type === 'noteOff') {
+            if (data.id !== undefined && data.id !== this.chordId) return;
             this.releaseAllVoices();
-        } else if (type === 'setPreset') {
-            this.waveType = data.wave || this.waveType;
-            this.cutoff = data.cutoff || this.cutoff;
-            this.attack = data.attack || this.attack;
-            this.release = data.release || this.release;
-            this.portamento = data.portamento || 0;
-            this.voices.forEach(v => {
-                v.attack = this.attack;
-                v.release = this.release;
-            });
         }
     }
 
@@ -116,71 +139,78 @@ class ChordProcessor extends AudioWorkletProcessor {
     }
 
     process(inputs, outputs, parameters) {
-        const output = outputs[0];
-
-        // Handle delayed (arpeggiated) notes
-        if (this.delayQueue) {
-            for (let i = this.delayQueue.length - 1; i >= 0; i--) {
-                const item = this.delayQueue[i];
-                if (item.delay <= 0) {
-                    item.voice.isActive = true;
-                    this.delayQueue.splice(i, 1);
-                } else {
-                    item.delay--;
+        this.load.begin();
+        const alive = this.render(outputs[0]);
+        this.load.end(outputs[0][0]?.length ?? 128);
+        return alive;
+    }
+
+    render(output) {
+        if (!output[0]) return true;
+
+        // Main generation loop
+        for (let i = 0; i < output[0].length; i++) {
+            const frame = currentFrame + i;
+            for (let event = this.events.next(frame); event; event = this.events.next(frame)) {
+                this.handleEvent(event, frame);
+            }
+
+            // Handle delayed (arpeggiated) notes
+            for (let d = this.delayQueue.length - 1; d >= 0; d--) {
+                if (this.delayQueue[d].frame <= frame) {
+                    this.delayQueue[d].voice.isActive = true;
+                    this.delayQueue.splice(d, 1);
                 }
             }
-        }
 
-        // Main generation loop
-        for (let channel = 0; channel < output.length; channel++) {
-            for (let i = 0; i < output[channel].length; i++) {
-                let mixed = 0;
-
-                for (const voice of this.voices) {
-                    if (!voice.isActive || voice.frequency <= 0) {
-                        if(voice.gain > 0){ // still in release phase
-                           voice.gain -= 1 / (voice.release * this.sampleRate);
-                           if (voice.gain < 0) voice.gain = 0;
-                        } else {
-                           continue;
-                        }
-                    }
+            let mixed = 0;
 
-                    // Portamento
-                    if (this.portamento > 0 && Math.abs(voice.currentFrequency - voice.frequency) > 1) {
-                         voice.currentFrequency += (voice.frequency - voice.currentFrequency) * this.portamento;
+            for (const voice of this.voices) {
+                if (!voice.isActive || voice.frequency <= 0) {
+                    if(voice.gain > 0){ // still in release phase
+                       voice.gain -= 1 / (voice.release * this.sampleRate);
+                       if (voice.gain < 0) voice.gain = 0;
                     } else {
-                        voice.currentFrequency = voice.frequency;
+                       continue;
                     }
+                }
 
-                    // Phase
-                    voice.phase += (voice.currentFrequency / this.sampleRate) * 2 * Math.PI;
-                    if (voice.phase >= 2 * Math.PI) voice.phase -= 2 * Math.PI;
-
-                    let sample = this.generateOsc(voice.phase, this.waveType);
-
-                    // Simple LPF
-                    const coeff = 1 - Math.exp(-2 * Math.PI * this.cutoff / this.sampleRate);
-                    voice.filterState += coeff * (sample - voice.filterState);
-                    sample = voice.filterState;
-
-                    // Envelope
-                    if (voice.targetGain > 0 && voice.gain < voice.targetGain) {
-                        voice.gain += 1 / (voice.attack * this.sampleRate);
-                        if (voice.gain > voice.targetGain) voice.gain = voice.targetGain;
-                    } else if (voice.targetGain === 0 && voice.gain > 0) {
-                        voice.gain -= 1 / (voice.release * this.sampleRate);
-                        if (voice.gain < 0) {
-                            voice.gain = 0;
-                            voice.isActive = false; // Voice is now free
-                        }
-                    }
-                    
-                    if (voice.gain > 0) {
-                       mixed += sample * voice.gain;
+                // Portamento
+                if (this.portamento > 0 && Math.abs(voice.currentFrequency - voice.frequency) > 1) {
+                     voice.currentFrequency += (voice.frequency - voice.currentFrequency) * this.portamento;
+                } else {
+                    voice.currentFrequency = voice.frequency;
+                }
+
+                // Phase
+                voice.phase += (voice.currentFrequency / this.sampleRate) * 2 * Math.PI;
+                if (voice.phase >= 2 * Math.PI) voice.phase -= 2 * Math.PI;
+
+                let sample = this.generateOsc(voice.phase, this.waveType);
+
+                // Simple LPF
+                const coeff = 1 - Math.exp(-2 * Math.PI * this.cutoff / this.sampleRate);
+                voice.filterState += coeff * (sample - voice.filterState);
+                sample = voice.filterState;
+
+                // Envelope
+                if (voice.targetGain > 0 && voice.gain < voice.targetGain) {
+                    voice.gain += 1 / (voice.attack * this.sampleRate);
+                    if (voice.gain > voice.targetGain) voice.gain = voice.targetGain;
+                } else if (voice.targetGain === 0 && voice.gain > 0) {
+                    voice.gain -= 1 / (voice.release * this.sampleRate);
+                    if (voice.gain < 0) {
+                        voice.gain = 0;
+                        voice.isActive = false; // Voice is now free
                     }
                 }
+                
+                if (voice.gain > 0) {
+                   mixed += sample * voice.gain;
+                }
+            }
 
+            for (let channel = 0; channel < output.length; channel++) {
                 output[channel][i] = mixed * 0.25; // Normalization for 4 voices
             }
         }
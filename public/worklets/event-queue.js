@@ -0,0 +1,45 @@
+// public/worklets/event-queue.js
+
+/**
+ * Time-stamped events for the processors.
+ *
+ * The main thread posts notes ahead of time with a `when` in context seconds; a processor
+ * keeps them here and plays each one on the exact frame it is due, so timing does not depend
+ * on when the message happened to arrive. An event without a `when`, or one that arrives
+ * late, is due at once.
+ *
+ * Events due on the same frame keep the order they were posted in, except that note-offs go
+ * last: a note that ends where the next one begins hands over to it, and its note-off, which
+ * no longer matches the sounding note, is ignored.
+ */
+export class EventQueue {
+  constructor() {
+    this.events = []; // { frame, last, event }, sorted by frame
+  }
+
+  push(event) {
+    const frame = typeof event.when === 'number' ? Math.round(event.when * sampleRate) : 0;
+    const last = event.type === 'noteOff';
+    let index = this.events.length;
+    while (index > 0) {
+      const previous = this.events[index - 1];
+      if (previous.frame < frame || (previous.frame === frame && (last || !previous.last))) break;
+      index--;
+    }
+    this.events.splice(index, 0, { frame, last, event });
+  }
+
+  // The next event due by `frame`, or null when there is none.
+  next(frame) {
+    return this.events.length > 0 && this.events[0].frame <= frame ? this.events.shift().event : null;
+  }
+
+  // Whether anything falls due before `frame`.
+  hasEventBefore(frame) {
+    return this.events.length > 0 && this.events[0].frame < frame;
+  }
+
+  clear() {
+    this.events.length = 0;
+  }
+}
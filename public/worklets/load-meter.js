@@ -0,0 +1,34 @@
+// public/worklets/load-meter.js
+
+/**
+ * How long a processor spends in process(), posted to the main thread about once a second as
+ * { type: 'load', busy, span } - both in milliseconds, busy out of span of rendered audio.
+ *
+ * Date.now() is all the clock a worklet has and it only counts whole milliseconds, so a single
+ * call usually measures 0. Over many calls the ticks that do land inside one average out to the
+ * real time spent.
+ */
+const REPORT_INTERVAL = 1; // seconds of audio
+
+export class LoadMeter {
+  constructor(port) {
+    this.port = port;
+    this.busy = 0;
+    this.frames = 0;
+    this.started = 0;
+  }
+
+  begin() {
+    this.started = Date.now();
+  }
+
+  end(frames) {
+    this.busy += Date.now() - this.started;
+    this.frames += frames;
+    if (this.frames >= REPORT_INTERVAL * sampleRate) {
+      this.port.postMessage({ type: 'load', busy: this.busy, span: this.frames / sampleRate * 1000 });
+      this.busy = 0;
+      this.frames = 0;
+    }
+  }
+}
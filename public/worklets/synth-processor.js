@@ -1,5 +1,14 @@
 // public/worklets/synth-processor.js
 
+import { EventQueue } from './event-queue.js';
+import { LoadMeter } from './load-meter.js';
+
+// One melody voice. Notes and note-offs are posted ahead of time and played on the frame they
+// are due (see ./event-queue.js); a note-off only releases the note it belongs to. A note that
+// arrives while the voice still sounds has taken it over: the old note fades out first.
+
+const STEAL_FADE = 0.005; // seconds
+
 class SynthProcessor extends AudioWorkletProcessor {
   constructor() {
     super();
@@ -23,28 +32,56 @@ class SynthProcessor extends AudioWorkletProcessor {
     this.oscType = 'sine';
     this.sampleRate = sampleRate;
 
+    this.events = new EventQueue();
+    this.load = new LoadMeter(this.port);
+    this.noteId = null;
+    this.stealingNote = null; // the note waiting for the fade-out
+
     this.port.onmessage = (event) => {
       console.log('[Worklet] Received message:', event.data);
-      const { type, when, ...params } = event.data;
-      switch (type) {
-        case 'noteOn':
-          console.log('[Worklet] noteOn params:', params);
-          this.frequency = params.frequency;
-          this.attack = params.attack || 0.01;
-          this.release = params.release || 0.1;
-          this.filterCutoff = params.filterCutoff || 20000;
-          this.oscType = params.oscType || 'sine';
-          this.velocity = params.velocity || 0.8;
-          this.targetGain = this.velocity;
-          this.isActive = true;
-          break;
-        case 'noteOff':
-          this.targetGain = 0;
-          break;
+      if (event.data.type === 'allNotesOff') {
+        this.events.clear();
+        this.noteId = null;
+        this.stealingNote = null;
+        this.targetGain = 0;
+      } else {
+        this.events.push(event.data);
       }
     };
   }
 
+  handleEvent(event) {
+    const { type, ...params } = event;
+    switch (type) {
+      case 'noteOn':
+        this.noteId = params.id ?? null;
+        if (this.gain > 0.0001) {
+          this.stealingNote = params;
+          this.targetGain = 0;
+        } else {
+          this.startNote(params);
+        }
+        break;
+      case 'noteOff':
+        if (params.id !== undefined && params.id !== this.noteId) break;
+        this.stealingNote = null;
+        this.targetGain = 0;
+        break;
+    }
+  }
+
+  startNote(params) {
+    this.frequency = params.frequency;
+    this.attack = params.attack || 0.01;
+    this.release = params.release || 0.1;
+    this.filterCutoff = params.filterCutoff || 20000;
+    this.filterCoeff = 1 - Math.exp(-2 * Math.PI * this.filterCutoff / this.sampleRate);
+    this.oscType = params.oscType || 'sine';
+    this.velocity = params.velocity || 0.8;
+    this.targetGain = this.velocity;
+    this.isActive = true;
+  }
+
   // Simple one-pole low-pass filter
   applyFilter(input) {
     this.filterState += this.filterCoeff * (input - this.filterState);
@@ -68,40 +105,54 @@ class SynthProcessor extends AudioWorkletProcessor {
   }
 
   process(inputs, outputs, parameters) {
-    const output = outputs[0];
+    this.load.begin();
+    const alive = this.render(outputs[0]);
+    this.load.end(outputs[0][0]?.length ?? 128);
+    return alive;
+  }
 
-    this.filterCoeff = 1 - Math.exp(-2 * Math.PI * this.filterCutoff / this.sampleRate);
-    
-    if (!this.isActive && this.gain <= 0.0001) {
-        // Optimization: if not active and silent, do nothing.
+  render(output) {
+    if (!output[0]) return true;
+    const length = output[0].length;
+
+    if (!this.isActive && this.gain <= 0.0001 && !this.events.hasEventBefore(currentFrame + length)) {
+        // Optimization: if not active, silent and nothing is due, do nothing.
         return true;
     }
 
-    for (let channel = 0; channel < output.length; ++channel) {
-      for (let i = 0; i < output[channel].length; ++i) {
-        let sample = 0;
-
-        if (this.isActive || this.gain > 0) {
-          this.phase += (this.frequency / this.sampleRate) * 2 * Math.PI;
-          if (this.phase >= 2 * Math.PI) this.phase -= 2 * Math.PI;
-
-          sample = this.generateOsc();
-          sample = this.applyFilter(sample);
-
-          // Envelope
-          if (this.gain < this.targetGain) {
-            this.gain += 1 / (this.attack * this.sampleRate);
-            if (this.gain > this.targetGain) this.gain = this.targetGain;
-          } else if (this.gain > this.targetGain) {
-            this.gain -= 1 / (this.release * this.sampleRate);
-            if (this.gain < this.targetGain) this.gain = this.targetGain;
+    for (let i = 0; i < length; ++i) {
+      for (let event = this.events.next(currentFrame + i); event; event = this.events.next(currentFrame + i)) {
+        this.handleEvent(event);
+      }
+      let sample = 0;
+
+      if (this.isActive || this.gain > 0) {
+        this.phase += (this.frequency / this.sampleRate) * 2 * Math.PI;
+        if (this.phase >= 2 * Math.PI) this.phase -= 2 * Math.PI;
+
+        sample = this.generateOsc();
+        sample = this.applyFilter(sample);
+
+        // Envelope
+        if (this.stealingNote) {
+          this.gain -= 1 / (STEAL_FADE * this.sampleRate);
+          if (this.gain <= 0) {
+            this.gain = 0;
+            this.startNote(this.stealingNote);
+            this.stealingNote = null;
           }
-
-          sample *= this.gain * 0.7; // Apply gain
+        } else if (this.gain < this.targetGain) {
+          this.gain += 1 / (this.attack * this.sampleRate);
+          if (this.gain > this.targetGain) this.gain = this.targetGain;
+        } else if (this.gain > this.targetGain) {
+          this.gain -= 1 / (this.release * this.sampleRate);
+          if (this.gain < this.targetGain) this.gain = this.targetGain;
         }
 
-        output[channel][i] = sample;
+        sample *= this.gain * 0.7; // Apply gain
       }
+
+      for (let channel = 0; channel < output.length; ++channel) output[channel][i] = sample;
     }
     
     // Log state periodically
@@ -2,7 +2,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { SlidersHorizontal, Music, Pause, Speaker, FileMusic, Drum, GitBranch, Atom, Piano, Home, X, Sparkles, Sprout, LayoutGrid, LayoutList, Waves, Timer } from "lucide-react";
+import { SlidersHorizontal, Music, Pause, Speaker, FileMusic, Drum, GitBranch, Atom, Piano, Home, X, Sparkles, Sprout, LayoutGrid, LayoutList, Waves, Timer, Dices, Copy, Heart, Download, Loader2, Save, Upload, Share2 } from "lucide-react";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,23 +10,42 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScenesDialog } from "@/components/scenes-dialog";
+import { MasterBusDialog } from "@/components/master-bus-dialog";
+import { PerformanceDialog } from "@/components/performance-dialog";
+import { MixerDialog } from "@/components/mixer-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import type { AuraGrooveProps } from "./aura-groove";
+import { SECTION_LABELS, EXPORT_LENGTHS, type AuraGrooveProps } from "./aura-groove";
 import { useRouter } from "next/navigation";
 import { formatTime } from "@/lib/utils";
+import { NOTE_NAMES, SCALE_MODE_LABELS } from "@/lib/scales";
+import { DRUM_KITS, DRUM_KIT_NAMES } from "@/lib/drum-kits";
+import type { ScaleMode, ExportSettings, DrumKitName } from "@/types/music";
 
 const EQ_BANDS = [
   { freq: '60', label: '60' }, { freq: '125', label: '125' }, { freq: '250', label: '250' },
   { freq: '500', label: '500' }, { freq: '1k', label: '1k' }, { freq: '2k', label: '2k' }, { freq: '4k', label: '4k' },
 ];
 
+const TEMPO_RAMP_OPTIONS = [0, 2, 4, 8, 16];
+
 export function AuraGrooveV2({
-  isPlaying, isInitializing, handleTogglePlay, drumSettings, setDrumSettings, instrumentSettings,
+  isPlaying, isReplaying, section, isInitializing, handleTogglePlay, drumSettings, setDrumSettings, instrumentSettings,
   setInstrumentSettings, handleBassTechniqueChange, handleVolumeChange, textureSettings, handleTextureEnabledChange,
-  bpm, handleBpmChange, score, handleScoreChange, density, setDensity, handleGoHome,
+  bpm, handleBpmChange, tempoRampBars, handleTempoRampBarsChange, score, handleScoreChange, density, setDensity, motifRecurrence, setMotifRecurrence,
+  evolution, setEvolution, generation, isLiked, handleLike, keySettings, handleKeySettingsChange,
+  seed, handleSeedChange, handleNewSeed, handleGoHome,
   isEqModalOpen, setIsEqModalOpen, eqSettings, handleEqChange,
   timerSettings, handleTimerDurationChange, handleToggleTimer,
+  exportSettings, handleExportSettingsChange, exportProgress, handleExport, handleExportMidi,
+  handleSaveSession, handleReplayFile, handleShare, masterBus, handleMasterBusChange,
+  performanceMode, performanceProfile, handlePerformanceModeChange, getPerformance,
+  channels, handleChannelChange, mutes, solos, handleToggleMute, handleToggleSolo, getLevels,
+  scenes, handleSaveScene, handleLoadScene, handleRenameScene, handleDuplicateScene, handleDeleteScene,
+  morph, handleMorphChange, handleMorphPositionChange, handleToggleMorph,
 }: AuraGrooveProps) {
 
   const router = useRouter();
@@ -71,6 +90,81 @@ export function AuraGrooveV2({
                 </DialogContent>
               </Dialog>
             )}
+            {isClient && (
+              <MixerDialog
+                channels={channels} onChannelChange={handleChannelChange}
+                mutes={mutes} solos={solos} onToggleMute={handleToggleMute} onToggleSolo={handleToggleSolo}
+                getLevels={getLevels}
+              />
+            )}
+            {isClient && <MasterBusDialog settings={masterBus} onChange={handleMasterBusChange} />}
+            {isClient && (
+              <PerformanceDialog
+                mode={performanceMode} profile={performanceProfile}
+                onModeChange={handlePerformanceModeChange} getPerformance={getPerformance}
+              />
+            )}
+            <Button variant="ghost" size="icon" onClick={handleShare} aria-label="Copy a link to this session"><Share2 className="h-5 w-5" /></Button>
+            {isClient && (
+              <ScenesDialog
+                scenes={scenes} onSave={handleSaveScene} onLoad={handleLoadScene} onRename={handleRenameScene}
+                onDuplicate={handleDuplicateScene} onDelete={handleDeleteScene}
+                morph={morph} onMorphChange={handleMorphChange} onMorphPositionChange={handleMorphPositionChange} onToggleMorph={handleToggleMorph}
+              />
+            )}
+            {isClient && (
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label="Export audio"><Download className="h-5 w-5" /></Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-md">
+                  <DialogHeader><DialogTitle>Export Audio</DialogTitle></DialogHeader>
+                  <p className="text-xs text-muted-foreground">Renders the current settings and seed from the first bar.</p>
+                  <div className="space-y-3 pt-1">
+                    <div className="grid grid-cols-3 items-center gap-2">
+                      <Label htmlFor="export-length" className="text-right text-xs">Length</Label>
+                      <Select value={String(exportSettings.minutes)} onValueChange={(v) => handleExportSettingsChange({ ...exportSettings, minutes: Number(v) })} disabled={exportProgress !== null}>
+                        <SelectTrigger id="export-length" className="col-span-2 h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {EXPORT_LENGTHS.map(minutes => <SelectItem key={minutes} value={String(minutes)} className="text-xs">{minutes} min</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-3 items-center gap-2">
+                      <Label htmlFor="export-format" className="text-right text-xs">Format</Label>
+                      <Select value={String(exportSettings.bitDepth)} onValueChange={(v) => handleExportSettingsChange({ ...exportSettings, bitDepth: Number(v) as ExportSettings['bitDepth'] })} disabled={exportProgress !== null}>
+                        <SelectTrigger id="export-format" className="col-span-2 h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="16" className="text-xs">WAV 16-bit</SelectItem>
+                          <SelectItem value="24" className="text-xs">WAV 24-bit</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {exportProgress !== null && <Progress value={exportProgress * 100} className="h-2" />}
+                    <Button onClick={handleExport} disabled={exportProgress !== null} className="w-full h-9 text-sm">
+                      {exportProgress !== null ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                      {exportProgress !== null ? `Rendering... ${Math.round(exportProgress * 100)}%` : 'Export WAV'}
+                    </Button>
+                    <div className="border-t pt-3 space-y-2">
+                      <p className="text-xs text-muted-foreground">MIDI: every bar played since you last pressed Play, one track per part.</p>
+                      <Button variant="outline" onClick={handleExportMidi} className="w-full h-9 text-sm"><FileMusic className="mr-2 h-4 w-4" /> Export MIDI</Button>
+                    </div>
+                    <div className="border-t pt-3 space-y-2">
+                      <p className="text-xs text-muted-foreground">Session log: the exact bars of the last session, to replay it later.</p>
+                      <div className="flex gap-2">
+                        <Button variant="outline" onClick={handleSaveSession} className="flex-1 h-9 text-sm"><Save className="mr-2 h-4 w-4" /> Save Session</Button>
+                        <Button variant="outline" asChild className="flex-1 h-9 text-sm">
+                          <label className="cursor-pointer">
+                            <Upload className="mr-2 h-4 w-4" /> Replay Session
+                            <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleReplayFile(file); e.target.value = ''; }}/>
+                          </label>
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
         </div>
         <div className="flex flex-col items-center gap-1 pt-2 pb-1.5">
@@ -78,6 +172,8 @@ export function AuraGrooveV2({
               {isPlaying ? <Pause className="mr-2 h-5 w-5" /> : <Music className="mr-2 h-5 w-5" />}
               {isPlaying ? "Stop" : "Play"}
            </Button>
+           {isReplaying && <span className="text-xs text-muted-foreground">Replaying session</span>}
+           {isPlaying && !isReplaying && section && <span className="text-xs text-muted-foreground">{SECTION_LABELS[section]}</span>}
         </div>
       </header>
 
@@ -108,15 +204,67 @@ export function AuraGrooveV2({
                           </SelectContent>
                       </Select>
                   </div>
+                  <div className="grid grid-cols-3 items-center gap-2">
+                      <Label htmlFor="key-selector" className="text-right text-xs">Key</Label>
+                      <div className="col-span-2 grid grid-cols-[1fr_2fr] gap-1">
+                          <Select value={String(keySettings.root)} onValueChange={(v) => handleKeySettingsChange({ ...keySettings, root: Number(v) })} disabled={isInitializing}>
+                              <SelectTrigger id="key-selector" className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                  {NOTE_NAMES.map((name, index) => (
+                                    <SelectItem key={name} value={String(index)} className="text-xs">{name}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                          </Select>
+                          <Select value={keySettings.mode} onValueChange={(v) => handleKeySettingsChange({ ...keySettings, mode: v as ScaleMode })} disabled={isInitializing}>
+                              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                  {(Object.keys(SCALE_MODE_LABELS) as ScaleMode[]).map(mode => (
+                                    <SelectItem key={mode} value={mode} className="text-xs">{SCALE_MODE_LABELS[mode]}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                          </Select>
+                      </div>
+                  </div>
                   <div className="grid grid-cols-[1fr_2fr_auto] items-center gap-2">
                     <Label htmlFor="bpm-slider" className="text-right text-xs">BPM</Label>
                     <Slider id="bpm-slider" value={[bpm]} min={60} max={160} step={5} onValueChange={(v) => handleBpmChange(v[0])} className="col-span-1" disabled={isInitializing}/>
                     <span className="text-xs w-8 text-right font-mono">{bpm}</span>
                   </div>
+                  <div className="grid grid-cols-3 items-center gap-2">
+                    <Label className="text-right text-xs">Tempo ramp</Label>
+                    <Select value={String(tempoRampBars)} onValueChange={(v) => handleTempoRampBarsChange(Number(v))} disabled={isInitializing}>
+                        <SelectTrigger className="col-span-2 h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {TEMPO_RAMP_OPTIONS.map(bars => (
+                              <SelectItem key={bars} value={String(bars)} className="text-xs">{bars === 0 ? 'Off' : `${bars} bars`}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                  </div>
                   <div className="grid grid-cols-3 items-center gap-2">
                     <Label htmlFor="density-slider" className="text-right text-xs">Density</Label>
                     <Slider id="density-slider" value={[density]} min={0.1} max={1} step={0.05} onValueChange={(v) => setDensity(v[0])} className="col-span-2" disabled={isInitializing}/>
                   </div>
+                  <div className="grid grid-cols-3 items-center gap-2">
+                    <Label htmlFor="motif-slider" className="text-right text-xs">Motifs</Label>
+                    <Slider id="motif-slider" value={[motifRecurrence]} min={0} max={1} step={0.05} onValueChange={(v) => setMotifRecurrence(v[0])} className="col-span-2" disabled={isInitializing}/>
+                  </div>
+                  <div className="grid grid-cols-3 items-center gap-2">
+                    <Label htmlFor="evolution-switch" className="text-right text-xs">Evolve</Label>
+                    <div className="col-span-2 flex items-center gap-2">
+                      <Switch id="evolution-switch" checked={evolution} onCheckedChange={setEvolution} disabled={isInitializing}/>
+                      <span className="text-xs font-mono text-muted-foreground flex-1">{evolution && generation !== null ? `Gen ${generation}` : '—'}</span>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={handleLike} disabled={!isPlaying || !evolution || isLiked} aria-label="Like this variation"><Heart className={`h-3.5 w-3.5 ${isLiked ? 'fill-primary text-primary' : ''}`}/></Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 items-center gap-2">
+                    <Label htmlFor="seed-input" className="text-right text-xs">Seed</Label>
+                    <div className="col-span-2 flex items-center gap-1">
+                      <Input id="seed-input" inputMode="numeric" value={String(seed)} onChange={(e) => handleSeedChange(Number(e.target.value.replace(/\D/g, '') || 0))} disabled={isInitializing || isPlaying} className="h-8 text-xs font-mono px-2"/>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={() => navigator.clipboard?.writeText(String(seed))} aria-label="Copy seed"><Copy className="h-3.5 w-3.5"/></Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={handleNewSeed} disabled={isInitializing || isPlaying} aria-label="New random seed"><Dices className="h-3.5 w-3.5"/></Button>
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
                <Card className="border-0 shadow-none mt-2">
@@ -231,6 +379,15 @@ export function AuraGrooveV2({
                                   </SelectContent>
                               </Select>
                           </div>
+                          <div className="flex justify-between items-center mb-1">
+                              <Label className="text-xs text-muted-foreground">Kit</Label>
+                              <Select value={drumSettings.kit} onValueChange={(v) => setDrumSettings(d => ({...d, kit: v as DrumKitName}))} disabled={isInitializing || drumSettings.pattern === 'none'}>
+                                  <SelectTrigger className="w-[140px] h-8 text-xs"><SelectValue /></SelectTrigger>
+                                  <SelectContent>
+                                      {DRUM_KIT_NAMES.map(kit => <SelectItem key={kit} value={kit} className="text-xs">{DRUM_KITS[kit].label}</SelectItem>)}
+                                  </SelectContent>
+                              </Select>
+                          </div>
                           <div className="flex items-center gap-2">
                               <Label className="text-xs text-muted-foreground"><Speaker className="h-3 w-3 inline-block mr-1"/>Volume</Label>
                               <Slider value={[drumSettings.volume]} max={1} step={0.05} onValueChange={(v) => setDrumSettings(d => ({...d, volume: v[0]}))} disabled={isInitializing || drumSettings.pattern === 'none'}/>
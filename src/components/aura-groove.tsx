@@ -1,7 +1,7 @@
 
 "use client";
 
-import { Loader2, Music, Pause, Speaker, FileMusic, Drum, SlidersHorizontal, Waves, GitBranch, Atom, Piano, Home, X, Sparkles, Sprout, LayoutGrid, Timer } from "lucide-react";
+import { Loader2, Music, Pause, Speaker, FileMusic, Drum, SlidersHorizontal, Waves, GitBranch, Atom, Piano, Home, X, Sparkles, Sprout, LayoutGrid, Timer, Dices, Copy, Repeat, Dna, Heart, Download, Save, Upload, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,16 +9,26 @@ import { Label } from "@/components/ui/label";
 import Image from 'next/image';
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import type { DrumSettings, InstrumentSettings, ScoreName, BassInstrument, InstrumentPart, MelodyInstrument, AccompanimentInstrument, BassTechnique, TextureSettings, TimerSettings } from '@/types/music';
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScenesDialog } from "@/components/scenes-dialog";
+import { MasterBusDialog } from "@/components/master-bus-dialog";
+import { MixerDialog } from "@/components/mixer-dialog";
+import { PerformanceDialog } from "@/components/performance-dialog";
+import type { DrumSettings, InstrumentSettings, ScoreName, BassInstrument, InstrumentPart, MelodyInstrument, AccompanimentInstrument, BassTechnique, TextureSettings, TimerSettings, KeySettings, ScaleMode, SectionName, ExportSettings, Scene, SceneMorph, MasterBusSettings, MixerPart, ChannelSettings, MixerLevels, PerformanceMode, PerformanceProfile, PerformanceStatus, DrumKitName } from '@/types/music';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useRouter } from "next/navigation";
 import { BASS_PRESETS } from "@/lib/bass-presets";
+import { DRUM_KITS, DRUM_KIT_NAMES } from "@/lib/drum-kits";
 import { getPresetParams } from "@/lib/presets";
+import { NOTE_NAMES, SCALE_MODE_LABELS } from "@/lib/scales";
 
 
 // This is now a "dumb" UI component controlled by the useAuraGroove hook.
 export type AuraGrooveProps = {
   isPlaying: boolean;
+  isReplaying: boolean;
+  section: SectionName | null;
   isInitializing: boolean;
   loadingText: string;
   drumSettings: DrumSettings;
@@ -31,11 +41,25 @@ export type AuraGrooveProps = {
   handleTextureEnabledChange: (part: 'sparkles' | 'pads', enabled: boolean) => void;
   bpm: number;
   handleBpmChange: (value: number) => void;
+  tempoRampBars: number;
+  handleTempoRampBarsChange: (bars: number) => void;
   score: ScoreName;
   handleScoreChange: (value: ScoreName) => void;
   handleTogglePlay: () => void;
   density: number;
   setDensity: (value: number) => void;
+  motifRecurrence: number;
+  setMotifRecurrence: (value: number) => void;
+  evolution: boolean;
+  setEvolution: (value: boolean) => void;
+  generation: number | null;
+  isLiked: boolean;
+  handleLike: () => void;
+  keySettings: KeySettings;
+  handleKeySettingsChange: (settings: KeySettings) => void;
+  seed: number;
+  handleSeedChange: (seed: number) => void;
+  handleNewSeed: () => void;
   handleGoHome: () => void;
   handleExit: () => void;
   isEqModalOpen: boolean;
@@ -45,6 +69,37 @@ export type AuraGrooveProps = {
   timerSettings: TimerSettings;
   handleTimerDurationChange: (minutes: number) => void;
   handleToggleTimer: () => void;
+  exportSettings: ExportSettings;
+  handleExportSettingsChange: (settings: ExportSettings) => void;
+  exportProgress: number | null;
+  handleExport: () => void;
+  handleExportMidi: () => void;
+  handleSaveSession: () => void;
+  handleReplayFile: (file: File) => void;
+  handleShare: () => void;
+  channels: Record<MixerPart, ChannelSettings>;
+  handleChannelChange: (part: MixerPart, changes: Partial<ChannelSettings>) => void;
+  mutes: Partial<Record<MixerPart, boolean>>;
+  solos: Partial<Record<MixerPart, boolean>>;
+  handleToggleMute: (part: MixerPart) => void;
+  handleToggleSolo: (part: MixerPart) => void;
+  getLevels: () => MixerLevels | null;
+  masterBus: MasterBusSettings;
+  handleMasterBusChange: (settings: MasterBusSettings) => void;
+  performanceMode: PerformanceMode;
+  performanceProfile: PerformanceProfile;
+  handlePerformanceModeChange: (mode: PerformanceMode) => void;
+  getPerformance: () => PerformanceStatus | null;
+  scenes: Scene[];
+  handleSaveScene: (name: string) => void;
+  handleLoadScene: (id: string) => void;
+  handleRenameScene: (id: string, name: string) => void;
+  handleDuplicateScene: (id: string) => void;
+  handleDeleteScene: (id: string) => void;
+  morph: SceneMorph;
+  handleMorphChange: (changes: Partial<Pick<SceneMorph, 'fromId' | 'toId' | 'seconds'>>) => void;
+  handleMorphPositionChange: (position: number) => void;
+  handleToggleMorph: () => void;
 };
 
 const EQ_BANDS = [
@@ -57,8 +112,25 @@ const EQ_BANDS = [
   { freq: '4k', label: '4k' },
 ];
 
+export const SECTION_LABELS: Record<SectionName, string> = {
+  intro: 'Intro',
+  development: 'Development',
+  climax: 'Climax',
+  breakdown: 'Breakdown',
+  outro: 'Outro',
+};
+
+// Minutes of music an export can render. The whole render is held in memory and then encoded,
+// about 37 MB a minute at 24 bit, so longer files would not fit in an ordinary tab.
+export const EXPORT_LENGTHS = [1, 2, 5, 10];
+
+// 0 = tempo changes take effect at the next bar.
+const TEMPO_RAMP_OPTIONS = [0, 2, 4, 8, 16];
+
 export function AuraGroove({
   isPlaying,
+  isReplaying,
+  section,
   isInitializing,
   loadingText,
   drumSettings,
@@ -71,11 +143,25 @@ export function AuraGroove({
   handleTextureEnabledChange,
   bpm,
   handleBpmChange,
+  tempoRampBars,
+  handleTempoRampBarsChange,
   score,
   handleScoreChange,
   handleTogglePlay,
   density,
   setDensity,
+  motifRecurrence,
+  setMotifRecurrence,
+  evolution,
+  setEvolution,
+  generation,
+  isLiked,
+  handleLike,
+  keySettings,
+  handleKeySettingsChange,
+  seed,
+  handleSeedChange,
+  handleNewSeed,
   handleGoHome,
   handleExit,
   isEqModalOpen,
@@ -85,6 +171,37 @@ export function AuraGroove({
   timerSettings,
   handleTimerDurationChange,
   handleToggleTimer,
+  exportSettings,
+  handleExportSettingsChange,
+  exportProgress,
+  handleExport,
+  handleExportMidi,
+  handleSaveSession,
+  handleReplayFile,
+  handleShare,
+  channels,
+  handleChannelChange,
+  mutes,
+  solos,
+  handleToggleMute,
+  handleToggleSolo,
+  getLevels,
+  masterBus,
+  handleMasterBusChange,
+  performanceMode,
+  performanceProfile,
+  handlePerformanceModeChange,
+  getPerformance,
+  scenes,
+  handleSaveScene,
+  handleLoadScene,
+  handleRenameScene,
+  handleDuplicateScene,
+  handleDeleteScene,
+  morph,
+  handleMorphChange,
+  handleMorphPositionChange,
+  handleToggleMorph,
 }: AuraGrooveProps) {
 
   const router = useRouter();
@@ -188,6 +305,119 @@ export function AuraGroove({
                     </div>
                 </DialogContent>
             </Dialog>
+            <MixerDialog
+                channels={channels}
+                onChannelChange={handleChannelChange}
+                mutes={mutes}
+                solos={solos}
+                onToggleMute={handleToggleMute}
+                onToggleSolo={handleToggleSolo}
+                getLevels={getLevels}
+            />
+            <MasterBusDialog settings={masterBus} onChange={handleMasterBusChange} />
+            <PerformanceDialog
+                mode={performanceMode}
+                profile={performanceProfile}
+                onModeChange={handlePerformanceModeChange}
+                getPerformance={getPerformance}
+            />
+            <Button variant="ghost" size="icon" onClick={handleShare} aria-label="Copy a link to this session">
+                <Share2 className="h-5 w-5" />
+            </Button>
+            <ScenesDialog
+                scenes={scenes}
+                onSave={handleSaveScene}
+                onLoad={handleLoadScene}
+                onRename={handleRenameScene}
+                onDuplicate={handleDuplicateScene}
+                onDelete={handleDeleteScene}
+                morph={morph}
+                onMorphChange={handleMorphChange}
+                onMorphPositionChange={handleMorphPositionChange}
+                onToggleMorph={handleToggleMorph}
+            />
+            <Dialog>
+                <DialogTrigger asChild>
+                    <Button variant="ghost" size="icon" aria-label="Export audio">
+                        <Download className="h-5 w-5" />
+                    </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Export Audio</DialogTitle>
+                    </DialogHeader>
+                    <p className="text-sm text-muted-foreground">Renders the current settings and seed from the first bar.</p>
+                    <div className="space-y-4 pt-2">
+                        <div className="grid grid-cols-3 items-center gap-4">
+                            <Label htmlFor="export-length" className="text-right">Length</Label>
+                            <Select
+                                value={String(exportSettings.minutes)}
+                                onValueChange={(v) => handleExportSettingsChange({ ...exportSettings, minutes: Number(v) })}
+                                disabled={exportProgress !== null}
+                            >
+                                <SelectTrigger id="export-length" className="col-span-2">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPORT_LENGTHS.map(minutes => (
+                                        <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid grid-cols-3 items-center gap-4">
+                            <Label htmlFor="export-format" className="text-right">Format</Label>
+                            <Select
+                                value={String(exportSettings.bitDepth)}
+                                onValueChange={(v) => handleExportSettingsChange({ ...exportSettings, bitDepth: Number(v) as ExportSettings['bitDepth'] })}
+                                disabled={exportProgress !== null}
+                            >
+                                <SelectTrigger id="export-format" className="col-span-2">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="16">WAV 16-bit</SelectItem>
+                                    <SelectItem value="24">WAV 24-bit</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {exportProgress !== null && <Progress value={exportProgress * 100} />}
+                        <Button onClick={handleExport} disabled={exportProgress !== null} className="w-full">
+                            {exportProgress !== null ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                            {exportProgress !== null ? `Rendering... ${Math.round(exportProgress * 100)}%` : 'Export WAV'}
+                        </Button>
+                        <div className="border-t pt-4 space-y-2">
+                            <p className="text-sm text-muted-foreground">MIDI: every bar played since you last pressed Play, one track per part.</p>
+                            <Button variant="outline" onClick={handleExportMidi} className="w-full">
+                                <FileMusic className="mr-2 h-4 w-4" /> Export MIDI
+                            </Button>
+                        </div>
+                        <div className="border-t pt-4 space-y-2">
+                            <p className="text-sm text-muted-foreground">Session log: the exact bars of the last session, to replay it later.</p>
+                            <div className="flex gap-2">
+                                <Button variant="outline" onClick={handleSaveSession} className="flex-1">
+                                    <Save className="mr-2 h-4 w-4" /> Save Session
+                                </Button>
+                                <Button variant="outline" asChild className="flex-1">
+                                    <label className="cursor-pointer">
+                                        <Upload className="mr-2 h-4 w-4" /> Replay Session
+                                        <input
+                                            type="file"
+                                            accept="application/json,.json"
+                                            className="hidden"
+                                            onChange={(e) => {
+                                                const file = e.target.files?.[0];
+                                                if (file) handleReplayFile(file);
+                                                e.target.value = '';
+                                            }}
+                                        />
+                                    </label>
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
         </div>
       <CardHeader className="text-center pt-12">
         <div className="mx-auto mb-4">
@@ -219,6 +449,39 @@ export function AuraGroove({
                     </SelectContent>
                 </Select>
             </div>
+            <div className="grid grid-cols-3 items-center gap-4">
+                 <Label htmlFor="key-selector" className="text-right">Key</Label>
+                 <div className="col-span-2 grid grid-cols-[1fr_2fr] gap-2">
+                    <Select
+                        value={String(keySettings.root)}
+                        onValueChange={(v) => handleKeySettingsChange({ ...keySettings, root: Number(v) })}
+                        disabled={isInitializing}
+                    >
+                        <SelectTrigger id="key-selector">
+                            <SelectValue placeholder="Root" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {NOTE_NAMES.map((name, index) => (
+                                <SelectItem key={name} value={String(index)}>{name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select
+                        value={keySettings.mode}
+                        onValueChange={(v) => handleKeySettingsChange({ ...keySettings, mode: v as ScaleMode })}
+                        disabled={isInitializing}
+                    >
+                        <SelectTrigger id="mode-selector">
+                            <SelectValue placeholder="Mode" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(SCALE_MODE_LABELS) as ScaleMode[]).map(mode => (
+                                <SelectItem key={mode} value={mode}>{SCALE_MODE_LABELS[mode]}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                 </div>
+            </div>
             <div className="grid grid-cols-3 items-center gap-4">
                 <Label className="text-right flex items-center gap-1.5"><Music className="h-4 w-4"/> BPM</Label>
                 <Slider
@@ -230,6 +493,42 @@ export function AuraGroove({
                     className="col-span-2"
                     disabled={isInitializing}
                 />
+            </div>
+            <div className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor="tempo-ramp-selector" className="text-right">Tempo ramp</Label>
+                <Select
+                    value={String(tempoRampBars)}
+                    onValueChange={(v) => handleTempoRampBarsChange(Number(v))}
+                    disabled={isInitializing}
+                >
+                    <SelectTrigger id="tempo-ramp-selector" className="col-span-2">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {TEMPO_RAMP_OPTIONS.map(bars => (
+                            <SelectItem key={bars} value={String(bars)}>{bars === 0 ? 'Off (next bar)' : `${bars} bars`}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor="seed-input" className="text-right">Seed</Label>
+                <div className="col-span-2 flex items-center gap-1">
+                    <Input
+                        id="seed-input"
+                        inputMode="numeric"
+                        value={String(seed)}
+                        onChange={(e) => handleSeedChange(Number(e.target.value.replace(/\D/g, '') || 0))}
+                        disabled={isInitializing || isPlaying}
+                        className="font-mono"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => navigator.clipboard?.writeText(String(seed))} aria-label="Copy seed">
+                        <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={handleNewSeed} disabled={isInitializing || isPlaying} aria-label="New random seed">
+                        <Dices className="h-4 w-4" />
+                    </Button>
+                </div>
             </div>
              <div className="grid grid-cols-3 items-center gap-4">
                 <Label className="text-right flex items-center gap-1.5"><Atom className="h-4 w-4" /> Density</Label>
@@ -243,6 +542,41 @@ export function AuraGroove({
                     disabled={isInitializing}
                 />
             </div>
+             <div className="grid grid-cols-3 items-center gap-4">
+                <Label className="text-right flex items-center gap-1.5"><Repeat className="h-4 w-4" /> Motif recurrence</Label>
+                <Slider
+                    value={[motifRecurrence]}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onValueChange={(v) => setMotifRecurrence(v[0])}
+                    className="col-span-2"
+                    disabled={isInitializing}
+                />
+            </div>
+             <div className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor="evolution-switch" className="text-right flex items-center gap-1.5"><Dna className="h-4 w-4" /> Evolution</Label>
+                <div className="col-span-2 flex items-center gap-3">
+                    <Switch
+                        id="evolution-switch"
+                        checked={evolution}
+                        onCheckedChange={setEvolution}
+                        disabled={isInitializing}
+                    />
+                    <span className="text-xs font-mono text-muted-foreground flex-1">
+                        {evolution && generation !== null ? `Gen ${generation}` : '—'}
+                    </span>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={handleLike}
+                        disabled={!isPlaying || !evolution || isLiked}
+                        aria-label="Like this variation"
+                    >
+                        <Heart className={`h-4 w-4 ${isLiked ? 'fill-primary text-primary' : ''}`} />
+                    </Button>
+                </div>
+            </div>
         </div>
         
         <div className="space-y-4 rounded-lg border p-4">
@@ -398,6 +732,21 @@ export function AuraGroove({
                         <SelectItem value="composer">Composer</SelectItem>
                       </SelectContent>
                     </Select>
+                </div>
+                 <div className="flex justify-between items-center">
+                    <Label htmlFor="drum-kit" className="font-semibold flex items-center gap-2 capitalize">Kit</Label>
+                     <Select
+                      value={drumSettings.kit}
+                      onValueChange={(v) => setDrumSettings(d => ({...d, kit: v as DrumKitName}))}
+                      disabled={isInitializing || drumSettings.pattern === 'none'}
+                    >
+                      <SelectTrigger id="drum-kit" className="w-[150px]">
+                        <SelectValue placeholder="Select kit" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DRUM_KIT_NAMES.map(kit => <SelectItem key={kit} value={kit}>{DRUM_KITS[kit].label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
                 </div>
                  <div className="space-y-2 pt-2">
                      <div className="flex items-center justify-between">
@@ -416,7 +765,7 @@ export function AuraGroove({
         )}
         {isPlaying && (
              <p className="text-muted-foreground text-center min-h-[40px] flex items-center justify-center px-4">
-              Playing at {bpm} BPM...
+              {isReplaying ? 'Replaying a recorded session...' : `Playing at ${bpm} BPM${section ? ` · ${SECTION_LABELS[section]}` : ''}...`}
             </p>
         )}
       </CardContent>
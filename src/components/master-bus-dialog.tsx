@@ -0,0 +1,99 @@
+'use client';
+
+import type { ReactNode } from "react";
+import { AudioLines } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { DELAY_DIVISIONS } from "@/lib/master-bus";
+import type { DelayDivision, MasterBusSettings } from "@/types/music";
+
+export type MasterBusDialogProps = {
+  settings: MasterBusSettings;
+  onChange: (settings: MasterBusSettings) => void;
+};
+
+type ParamProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled: boolean;
+  onChange: (value: number) => void;
+};
+
+function Param({ label, value, min, max, step, format, disabled, onChange }: ParamProps) {
+  return (
+    <div className="grid grid-cols-4 items-center gap-3">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={(v) => onChange(v[0])} disabled={disabled} className="col-span-2" />
+      <span className="text-xs text-right tabular-nums">{format(value)}</span>
+    </div>
+  );
+}
+
+function Effect({ title, enabled, onToggle, children }: { title: string; enabled: boolean; onToggle: (enabled: boolean) => void; children: ReactNode }) {
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <Label className="font-semibold">{title}</Label>
+        <Switch checked={enabled} onCheckedChange={onToggle} aria-label={`${title} on`} />
+      </div>
+      {children}
+    </div>
+  );
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const decibels = (value: number) => `${value.toFixed(1)} dB`;
+
+export function MasterBusDialog({ settings, onChange }: MasterBusDialogProps) {
+  const { reverb, delay, compressor, limiter } = settings;
+  const update = <K extends keyof MasterBusSettings>(effect: K, changes: Partial<MasterBusSettings[K]>) => {
+    onChange({ ...settings, [effect]: { ...settings[effect], ...changes } });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Open master effects"><AudioLines className="h-5 w-5" /></Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader><DialogTitle>Master Effects</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <Effect title="Reverb" enabled={reverb.enabled} onToggle={(enabled) => update('reverb', { enabled })}>
+            <Param label="Mix" value={reverb.mix} min={0} max={1} step={0.01} format={percent} disabled={!reverb.enabled} onChange={(mix) => update('reverb', { mix })} />
+            <Param label="Decay" value={reverb.decay} min={0.5} max={12} step={0.5} format={(v) => `${v.toFixed(1)} s`} disabled={!reverb.enabled} onChange={(decay) => update('reverb', { decay })} />
+          </Effect>
+          <Effect title="Delay" enabled={delay.enabled} onToggle={(enabled) => update('delay', { enabled })}>
+            <Param label="Mix" value={delay.mix} min={0} max={1} step={0.01} format={percent} disabled={!delay.enabled} onChange={(mix) => update('delay', { mix })} />
+            <Param label="Feedback" value={delay.feedback} min={0} max={0.9} step={0.01} format={percent} disabled={!delay.enabled} onChange={(feedback) => update('delay', { feedback })} />
+            <div className="grid grid-cols-4 items-center gap-3">
+              <Label htmlFor="delay-division" className="text-xs text-muted-foreground">Time</Label>
+              <Select value={delay.division} onValueChange={(v) => update('delay', { division: v as DelayDivision })} disabled={!delay.enabled}>
+                <SelectTrigger id="delay-division" className="col-span-3 h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DELAY_DIVISIONS) as DelayDivision[]).map(division => (
+                    <SelectItem key={division} value={division}>{division.replace('d', ' dotted')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </Effect>
+          <Effect title="Compressor" enabled={compressor.enabled} onToggle={(enabled) => update('compressor', { enabled })}>
+            <Param label="Threshold" value={compressor.threshold} min={-40} max={0} step={0.5} format={decibels} disabled={!compressor.enabled} onChange={(threshold) => update('compressor', { threshold })} />
+            <Param label="Ratio" value={compressor.ratio} min={1} max={20} step={0.5} format={(v) => `${v.toFixed(1)}:1`} disabled={!compressor.enabled} onChange={(ratio) => update('compressor', { ratio })} />
+          </Effect>
+          <Effect title="Limiter" enabled={limiter.enabled} onToggle={(enabled) => update('limiter', { enabled })}>
+            <Param label="Ceiling" value={limiter.ceiling} min={-12} max={0} step={0.1} format={decibels} disabled={!limiter.enabled} onChange={(ceiling) => update('limiter', { ceiling })} />
+          </Effect>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { SlidersVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { METER_FLOOR_DB, levelToDb } from "@/lib/level-meter";
+import { cn } from "@/lib/utils";
+import type { ChannelSettings, Level, MixerLevels, MixerPart } from "@/types/music";
+
+const PART_LABELS: Record<MixerPart, string> = {
+  bass: 'Bass',
+  melody: 'Melody',
+  accompaniment: 'Accomp.',
+  drums: 'Drums',
+  sparkles: 'Sparkles',
+  pads: 'Pads',
+};
+
+const METER_INTERVAL_MS = 50;
+const PEAK_FALL = 0.93; // Per reading, so peaks stay visible for a moment.
+
+const formatPan = (pan: number) => Math.abs(pan) < 0.01 ? 'C' : `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+
+const meterPosition = (level: number) => `${(1 - levelToDb(level) / METER_FLOOR_DB) * 100}%`;
+
+const fallingPeak = (previous: Level | undefined, next: Level): Level =>
+  ({ rms: next.rms, peak: Math.max(next.peak, (previous?.peak ?? 0) * PEAK_FALL) });
+
+// Polls the engine's meters for as long as the mixer is open.
+function useLevels(getLevels: () => MixerLevels | null) {
+  const [levels, setLevels] = useState<MixerLevels | null>(null);
+  const [clipped, setClipped] = useState(false);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      const next = getLevels();
+      if (!next) return;
+      if (next.master.clipped) setClipped(true);
+      setLevels(prev => {
+        const parts = {} as Record<MixerPart, Level>;
+        (Object.keys(next.parts) as MixerPart[]).forEach(part => {
+          parts[part] = fallingPeak(prev?.parts[part], next.parts[part]);
+        });
+        return { parts, master: { ...fallingPeak(prev?.master, next.master), clipped: next.master.clipped } };
+      });
+    }, METER_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [getLevels]);
+
+  return { levels, clipped, resetClip: () => setClipped(false) };
+}
+
+// RMS as the bar, peak as the line.
+function Meter({ level, className }: { level?: Level; className?: string }) {
+  return (
+    <div className={cn("relative h-2 w-full overflow-hidden rounded-full bg-secondary", className)}>
+      <div className="absolute inset-y-0 left-0 bg-primary transition-[width] duration-75" style={{ width: meterPosition(level?.rms ?? 0) }} />
+      <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: meterPosition(level?.peak ?? 0) }} />
+    </div>
+  );
+}
+
+export type MixerDialogProps = {
+  channels: Record<MixerPart, ChannelSettings>;
+  onChannelChange: (part: MixerPart, changes: Partial<ChannelSettings>) => void;
+  mutes: Partial<Record<MixerPart, boolean>>;
+  solos: Partial<Record<MixerPart, boolean>>;
+  onToggleMute: (part: MixerPart) => void;
+  onToggleSolo: (part: MixerPart) => void;
+  getLevels: () => MixerLevels | null;
+};
+
+function MixerPanel({ channels, onChannelChange, mutes, solos, onToggleMute, onToggleSolo, getLevels }: MixerDialogProps) {
+  const { levels, clipped, resetClip } = useLevels(getLevels);
+  const soloing = Object.values(solos).some(Boolean);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[4.5rem_auto_6rem_1fr_1fr_1fr_2.5rem] items-center gap-x-3 gap-y-3">
+        <span />
+        <span />
+        <Label className="text-xs text-muted-foreground">Level</Label>
+        <Label className="text-xs text-muted-foreground">Pan</Label>
+        <Label className="text-xs text-muted-foreground">Reverb</Label>
+        <Label className="text-xs text-muted-foreground">Delay</Label>
+        <Label className="text-xs text-muted-foreground">Drift</Label>
+        {(Object.keys(PART_LABELS) as MixerPart[]).map(part => {
+          const channel = channels[part];
+          const silenced = soloing ? !solos[part] : !!mutes[part];
+          return (
+            <div key={part} className="contents">
+              <Label className={cn("text-sm", silenced && "text-muted-foreground")}>{PART_LABELS[part]}</Label>
+              <div className="flex gap-1">
+                <Button variant={mutes[part] ? "destructive" : "outline"} size="sm" className="h-7 w-7 p-0" onClick={() => onToggleMute(part)} aria-pressed={!!mutes[part]} aria-label={`Mute ${PART_LABELS[part]}`}>M</Button>
+                <Button variant={solos[part] ? "default" : "outline"} size="sm" className="h-7 w-7 p-0" onClick={() => onToggleSolo(part)} aria-pressed={!!solos[part]} aria-label={`Solo ${PART_LABELS[part]}`}>S</Button>
+              </div>
+              <Meter level={levels?.parts[part]} />
+              <div className="flex items-center gap-2">
+                <Slider value={[channel.pan]} min={-1} max={1} step={0.01} onValueChange={(v) => onChannelChange(part, { pan: v[0] })} aria-label={`${PART_LABELS[part]} pan`} />
+                <span className="w-8 text-right text-xs tabular-nums">{formatPan(channel.pan)}</span>
+              </div>
+              <Slider value={[channel.reverbSend]} min={0} max={1} step={0.01} onValueChange={(v) => onChannelChange(part, { reverbSend: v[0] })} aria-label={`${PART_LABELS[part]} reverb send`} />
+              <Slider value={[channel.delaySend]} min={0} max={1} step={0.01} onValueChange={(v) => onChannelChange(part, { delaySend: v[0] })} aria-label={`${PART_LABELS[part]} delay send`} />
+              <Switch checked={channel.autoPan} onCheckedChange={(autoPan) => onChannelChange(part, { autoPan })} aria-label={`${PART_LABELS[part]} auto-pan`} />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-3 border-t pt-4">
+        <Label className="w-[4.5rem] text-sm font-semibold">Master</Label>
+        <Meter level={levels?.master} className="h-3 flex-1" />
+        <span className="w-16 text-right text-xs tabular-nums">{levels ? `${levelToDb(levels.master.peak).toFixed(1)} dB` : '-'}</span>
+        <Button
+          variant={clipped ? "destructive" : "outline"}
+          size="sm"
+          className="h-7"
+          onClick={resetClip}
+          aria-label={clipped ? "The master clipped; click to reset" : "No clipping"}
+        >
+          Clip
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Sends feed the reverb and delay on the master bus; switch those on under Master Effects. Drift slowly pans a part around its position.</p>
+    </div>
+  );
+}
+
+export function MixerDialog(props: MixerDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Open mixer"><SlidersVertical className="h-5 w-5" /></Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader><DialogTitle>Mixer</DialogTitle></DialogHeader>
+        <MixerPanel {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
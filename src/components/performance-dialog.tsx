@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { PERFORMANCE_MODES, PROFILES } from "@/lib/performance-monitor";
+import type { PerformanceMode, PerformanceProfile, PerformanceStatus } from "@/types/music";
+
+const MODE_LABELS: Record<PerformanceMode, string> = {
+  auto: 'Auto',
+  low: 'Low',
+  balanced: 'Balanced',
+  high: 'High',
+};
+
+const STATUS_INTERVAL_MS = 1000;
+
+export type PerformanceDialogProps = {
+  mode: PerformanceMode;
+  profile: PerformanceProfile;
+  onModeChange: (mode: PerformanceMode) => void;
+  getPerformance: () => PerformanceStatus | null;
+};
+
+// Polls the engine's measurements for as long as the dialog is open.
+function PerformanceStatusPanel({ profile, getPerformance }: Pick<PerformanceDialogProps, 'profile' | 'getPerformance'>) {
+  const [status, setStatus] = useState<PerformanceStatus | null>(null);
+
+  useEffect(() => {
+    setStatus(getPerformance());
+    const intervalId = setInterval(() => setStatus(getPerformance()), STATUS_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [getPerformance]);
+
+  const settings = PROFILES[profile];
+  const rows: [string, string][] = [
+    ['In use', MODE_LABELS[profile]],
+    ['Audio load', status ? `${Math.round(status.load * 100)}%` : '-'],
+    ['Underruns', status ? String(status.underruns) : '-'],
+    ['Melody voices', status?.melodyVoices ? `${status.melodyVoices.active}/${status.melodyVoices.voices} sounding` : String(settings.melodyVoices)],
+    ['Voice peak', status?.melodyVoices ? `${status.melodyVoices.peak}, ${status.melodyVoices.stolen} stolen` : '-'],
+    ['Reverb tail', `${settings.reverbLength} s max`],
+    ['Lookahead', `${settings.lookaheadBars} bars`],
+    ['Pads', settings.preloadPads ? 'Preloaded' : 'Loaded on demand'],
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-1 rounded-md border p-3 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="text-right tabular-nums">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function PerformanceDialog({ mode, profile, onModeChange, getPerformance }: PerformanceDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Open performance settings"><Gauge className="h-5 w-5" /></Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader><DialogTitle>Performance</DialogTitle></DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 items-center gap-3">
+            <Label htmlFor="performance-mode" className="text-right">Profile</Label>
+            <Select value={mode} onValueChange={(v) => onModeChange(v as PerformanceMode)}>
+              <SelectTrigger id="performance-mode" className="col-span-2"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PERFORMANCE_MODES.map(m => <SelectItem key={m} value={m}>{MODE_LABELS[m]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <PerformanceStatusPanel profile={profile} getPerformance={getPerformance} />
+          <p className="text-xs text-muted-foreground">Auto measures how much room the audio thread has while playing and steps the profile down on dropouts, then back up once things stay calm.</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
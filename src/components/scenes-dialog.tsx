@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from "react";
+import { Bookmark, Check, Copy, Pencil, Play, Square, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import type { Scene, SceneMorph } from "@/types/music";
+
+const MORPH_LENGTHS = [15, 30, 60, 120, 300]; // seconds
+
+const formatSeconds = (seconds: number) => seconds < 60 ? `${seconds} s` : `${seconds / 60} min`;
+
+export type ScenesDialogProps = {
+  scenes: Scene[];
+  onSave: (name: string) => void;
+  onLoad: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  morph: SceneMorph;
+  onMorphChange: (changes: Partial<Pick<SceneMorph, 'fromId' | 'toId' | 'seconds'>>) => void;
+  onMorphPositionChange: (position: number) => void;
+  onToggleMorph: () => void;
+};
+
+export function ScenesDialog({ scenes, onSave, onLoad, onRename, onDuplicate, onDelete, morph, onMorphChange, onMorphPositionChange, onToggleMorph }: ScenesDialogProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleSave = () => {
+    onSave(newName);
+    setNewName('');
+  };
+
+  const startRename = (scene: Scene) => {
+    setEditingId(scene.id);
+    setEditingName(scene.name);
+  };
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const canMorph = scenes.some(s => s.id === morph.fromId) && scenes.some(s => s.id === morph.toId);
+
+  const sceneSelect = (id: string, value: string | null, onChange: (id: string) => void) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger id={id} className="h-9"><SelectValue placeholder="Pick a scene" /></SelectTrigger>
+      <SelectContent>
+        {scenes.map(scene => <SelectItem key={scene.id} value={scene.id}>{scene.name}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Open scenes"><Bookmark className="h-5 w-5" /></Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader><DialogTitle>Scenes</DialogTitle></DialogHeader>
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Name for the current state"
+            className="h-9"
+          />
+          <Button onClick={handleSave} className="h-9">Save</Button>
+        </div>
+        <div className="max-h-72 overflow-y-auto">
+          {scenes.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No scenes yet. Save the current composition and mix to come back to it later.</p>
+          )}
+          <ul className="space-y-1">
+            {scenes.map(scene => (
+              <li key={scene.id} className="flex items-center gap-1 rounded-md border px-2 py-1">
+                {editingId === scene.id ? (
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      autoFocus
+                      className="h-8 flex-1"
+                    />
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={finishRename} aria-label="Confirm name"><Check className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)} aria-label="Cancel rename"><X className="h-4 w-4" /></Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 truncate text-sm" title={scene.name}>{scene.name}</span>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onLoad(scene.id)} aria-label={`Load ${scene.name}`}><Play className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startRename(scene)} aria-label={`Rename ${scene.name}`}><Pencil className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDuplicate(scene.id)} aria-label={`Duplicate ${scene.name}`}><Copy className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(scene.id)} aria-label={`Delete ${scene.name}`}><Trash2 className="h-4 w-4" /></Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+        {scenes.length >= 2 && (
+          <div className="space-y-3 border-t pt-4">
+            <h3 className="text-sm font-medium">Morph</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="morph-from" className="text-xs text-muted-foreground">Scene A</Label>
+                {sceneSelect("morph-from", morph.fromId, (fromId) => onMorphChange({ fromId }))}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="morph-to" className="text-xs text-muted-foreground">Scene B</Label>
+                {sceneSelect("morph-to", morph.toId, (toId) => onMorphChange({ toId }))}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-muted-foreground">A</span>
+              <Slider
+                value={[morph.position]}
+                min={0}
+                max={1}
+                step={0.01}
+                onValueChange={(v) => onMorphPositionChange(v[0])}
+                disabled={!canMorph}
+                aria-label="Crossfader"
+              />
+              <span className="text-xs text-muted-foreground">B</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={String(morph.seconds)} onValueChange={(v) => onMorphChange({ seconds: Number(v) })}>
+                <SelectTrigger className="h-9 flex-1" aria-label="Morph length"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MORPH_LENGTHS.map(seconds => <SelectItem key={seconds} value={String(seconds)}>{formatSeconds(seconds)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button onClick={onToggleMorph} disabled={!canMorph} className="h-9">
+                {morph.isRunning ? <Square className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                {morph.isRunning ? 'Stop' : `Morph to ${morph.position < 0.5 ? 'B' : 'A'}`}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Tempo, density, the mix and the EQ glide; style, key, instruments and drums switch at the start of a phrase once the fader passes the middle.</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,48 +3,77 @@
 
 import React, { createContext, useContext, useState, useRef, useCallback, useEffect } from 'react';
 import { useToast } from "@/hooks/use-toast";
-import type { WorkerSettings, Score, InstrumentPart, BassInstrument, MelodyInstrument, AccompanimentInstrument, BassTechnique, TextureSettings, ScoreName } from '@/types/music';
-import { DrumMachine } from '@/lib/drum-machine';
-import { AccompanimentSynthManager } from '@/lib/accompaniment-synth-manager';
-import { BassSynthManager } from '@/lib/bass-synth-manager';
-import { SparklePlayer } from '@/lib/sparkle-player';
-import { PadPlayer } from '@/lib/pad-player';
-import { getPresetParams } from "@/lib/presets";
+import type { WorkerSettings, Score, InstrumentPart, BassInstrument, MelodyInstrument, AccompanimentInstrument, BassTechnique, TextureSettings, ScoreName, SectionName, MusicalGenome, WorkerMessage, RecordedBar, SessionLog, MasterBusSettings, MixerPart, ChannelSettings, MixerLevels, PerformanceMode, PerformanceProfile, PerformanceStatus } from '@/types/music';
+import { createSessionLog } from '@/lib/session-log';
+import { PHRASE_BARS } from '@/lib/composers/shared';
+import { readLevels } from '@/lib/level-meter';
+import { PerformanceMonitor, PROFILES } from '@/lib/performance-monitor';
+import { DEFAULT_DRUM_KIT } from '@/lib/drum-kits';
+import { createMixer, createInstruments, initInstruments, scheduleScore as scheduleBar, audibleScore, balancedVolume, applyChannel, applyMuteSolo, workletNodes, START_DELAY, MIN_LOOKAHEAD, type Mixer, type Instruments } from '@/lib/audio-graph';
 
 // --- Type Definitions ---
-type WorkerMessage = {
-    type: 'score' | 'error' | 'debug' | 'sparkle' | 'pad';
-    score?: Score;
-    error?: string;
-    message?: string;
-    data?: any;
-    padName?: string;
-    time?: number;
+// A composed bar and its start time.
+type QueuedBar = {
+    time: number;
+    barIndex: number;
+    barDuration: number;
+    score: Score;
 };
 
-// --- Constants ---
-const VOICE_BALANCE = {
-  bass: 1.0, melody: 0.5, accompaniment: 0.6, drums: 0.8,
-  effects: 0.6, sparkles: 0.35, pads: 0.9,
+// A bar handed to the instruments that has not started yet.
+type PendingBar = {
+    time: number;
+    recorded: RecordedBar;
 };
 
-const EQ_FREQUENCIES = [60, 125, 250, 500, 1000, 2000, 4000];
+// A session log being played back in place of the worker.
+type Replay = {
+    log: SessionLog;
+    position: number; // Next event to read.
+    settings: WorkerSettings; // The recorded settings in effect at this point of the log.
+    finished: boolean;
+};
 
-const isMobile = () => typeof window !== 'undefined' && /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
+// --- Constants ---
+// Lookahead scheduling: the engine keeps a few bars of composed music (as many as the
+// performance profile asks for) queued on the AudioContext timeline and asks the worker for
+// the next bar only when it runs low. Each bar goes to the instruments as soon as it arrives;
+// they queue its notes by time, so playback does not wait on the main thread's timers.
+const SCHEDULER_INTERVAL_MS = 25;
+// The queue always holds at least MIN_LOOKAHEAD of music, enough to ride out a busy main
+// thread; in a background tab, whose timers fire about once a second at best, it holds enough
+// to cover several missed ticks.
+const HIDDEN_LOOKAHEAD = 4; // seconds
+const INITIAL_PROFILE: PerformanceProfile = 'balanced';
 
 // --- React Context ---
 interface AudioEngineContextType {
   isInitialized: boolean;
   isInitializing: boolean;
   isPlaying: boolean;
+  isReplaying: boolean;
+  section: SectionName | null; // The song-form section that is currently audible.
+  genome: MusicalGenome | null; // The evolving genome behind what is currently audible.
+  likeGenome: () => void;
+  getRecordedBars: () => RecordedBar[]; // Every bar played since the last start.
+  getSessionLog: () => SessionLog | null; // The last live session, recorded for replay.
+  startReplay: (log: SessionLog) => void;
+  atNextPhrase: (action: () => void) => void; // Runs `action` just before the worker composes the next phrase.
   initialize: () => Promise<boolean>;
   setIsPlaying: (playing: boolean) => void;
   updateSettings: (settings: Partial<WorkerSettings>) => void;
   setVolume: (part: InstrumentPart, volume: number) => void;
+  setChannel: (part: MixerPart, settings: ChannelSettings) => void; // Pan, sends and auto-pan.
+  setMuteSolo: (mutes: Partial<Record<MixerPart, boolean>>, solos: Partial<Record<MixerPart, boolean>>) => void;
+  getLevels: () => MixerLevels | null; // Current meter readings; null before initialization.
   setInstrument: (part: 'bass' | 'melody' | 'accompaniment', name: BassInstrument | MelodyInstrument | AccompanimentInstrument) => void;
   setBassTechnique: (technique: BassTechnique) => void;
   setTextureSettings: (settings: TextureSettings) => void;
   setEQGain: (bandIndex: number, gain: number) => void;
+  setMasterBus: (settings: MasterBusSettings) => void;
+  performanceProfile: PerformanceProfile; // The profile in use, whether picked or measured.
+  setPerformanceMode: (mode: PerformanceMode) => void;
+  getPerformance: () => PerformanceStatus | null; // Null before initialization.
   startMasterFadeOut: (durationInSeconds: number) => void;
   cancelMasterFadeOut: () => void;
 }
@@ -64,74 +93,211 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
   const [isInitialized, setIsInitialized] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [section, setSection] = useState<SectionName | null>(null);
+  const [genome, setGenome] = useState<MusicalGenome | null>(null);
+  const [performanceProfile, setPerformanceProfile] = useState<PerformanceProfile>(INITIAL_PROFILE);
   
   const workerRef = useRef<Worker | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const synthPoolRef = useRef<AudioWorkletNode[]>([]);
-  const nextVoiceRef = useRef(0);
   const settingsRef = useRef<WorkerSettings | null>(null);
+
+  const schedulerTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const barQueueRef = useRef<PendingBar[]>([]);
+  const recordedBarsRef = useRef<RecordedBar[]>([]);
+  const sessionLogRef = useRef<SessionLog | null>(null);
+  const unloggedMessagesRef = useRef<WorkerMessage[]>([]);
+  const nextBarIndexRef = useRef(0);
+  const replayRef = useRef<Replay | null>(null);
+  const phraseActionsRef = useRef<(() => void)[]>([]);
+  const nextBarTimeRef = useRef(0);
+  const barDurationRef = useRef(0);
+  const barRequestPendingRef = useRef(false);
+  const uiTimeoutsRef = useRef(new Set<ReturnType<typeof setTimeout>>());
   
-  const drumMachineRef = useRef<DrumMachine | null>(null);
-  const accompanimentManagerRef = useRef<AccompanimentSynthManager | null>(null);
-  const bassManagerRef = useRef<BassSynthManager | null>(null);
-  const sparklePlayerRef = useRef<SparklePlayer | null>(null);
-  const padPlayerRef = useRef<PadPlayer | null>(null);
-
-  const masterGainNodeRef = useRef<GainNode | null>(null);
-  const gainNodesRef = useRef<Record<InstrumentPart, GainNode | null>>({
-    bass: null, melody: null, accompaniment: null, effects: null, drums: null, sparkles: null, pads: null,
-  });
-
-  const eqNodesRef = useRef<BiquadFilterNode[]>([]);
+  const instrumentsRef = useRef<Instruments | null>(null);
+  const mixerRef = useRef<Mixer | null>(null);
+  const monitorRef = useRef<PerformanceMonitor | null>(null);
+  const performanceModeRef = useRef<PerformanceMode>('auto');
+  const profileRef = useRef<PerformanceProfile>(INITIAL_PROFILE);
+  const lookaheadBarsRef = useRef(PROFILES[INITIAL_PROFILE].lookaheadBars);
   
   const { toast } = useToast();
+
+  // Runs a UI update once the music it describes is actually heard.
+  const atAudibleTime = useCallback((delay: number, update: () => void) => {
+    const timeoutId = setTimeout(() => {
+        uiTimeoutsRef.current.delete(timeoutId);
+        update();
+    }, Math.max(0, delay * 1000));
+    uiTimeoutsRef.current.add(timeoutId);
+  }, []);
   
-  const scheduleScore = useCallback((score: Score, audioContext: AudioContext) => {
-    console.log(`[AudioEngine] Received score. Bass: ${score.bass?.length || 0}, Melody: ${score.melody?.length || 0}, Accomp: ${score.accompaniment?.length || 0}, Drums: ${score.drums?.length || 0}`);
+  const scheduleScore = useCallback(({ score, time: barStartTime, barIndex, barDuration }: QueuedBar) => {
     console.time('scheduleScore');
+    const settings = replayRef.current?.settings ?? settingsRef.current;
+    if (instrumentsRef.current) scheduleBar(instrumentsRef.current, score, barStartTime, settings);
+    mixerRef.current?.bus.setTempo(barDuration, barStartTime);
+    instrumentsRef.current?.bass.setTempo(barDuration, barStartTime);
+    barQueueRef.current.push({ time: barStartTime, recorded: { barIndex, barDuration, score: audibleScore(score, settings) } });
+    console.timeEnd('scheduleScore');
+  }, []);
 
-    const now = audioContext.currentTime;
-    const currentSettings = settingsRef.current;
-    
-    const bassScore = score.bass || [];
-    if (bassScore.length > 0 && bassManagerRef.current && currentSettings?.instrumentSettings.bass.name !== 'none') {
-        bassManagerRef.current.schedule(bassScore, now);
-    }
-    
-    const melodyScore = score.melody || [];
-    if (melodyScore.length > 0 && currentSettings) {
-        const instrumentName = currentSettings.instrumentSettings.melody.name;
-        const gainNode = gainNodesRef.current.melody;
-        if (instrumentName !== 'none' && gainNode) {
-            melodyScore.forEach(note => {
-                const voice = synthPoolRef.current[nextVoiceRef.current++ % synthPoolRef.current.length];
-                if (voice) {
-                    const params = getPresetParams(instrumentName, note);
-                    if (!params) return;
-                    voice.disconnect();
-                    voice.connect(gainNode);
-                    const noteOnTime = now + note.time;
-                    voice.port.postMessage({ ...params, type: 'noteOn', when: noteOnTime });
-                    const noteOffTime = noteOnTime + note.duration;
-                    const delayUntilOff = (noteOffTime - audioContext.currentTime) * 1000;
-                    setTimeout(() => voice.port.postMessage({ type: 'noteOff', release: params.release }), Math.max(0, delayUntilOff));
-                }
-            });
+  // Sparkles and pads arrive ahead of their bar's score and are logged together with it.
+  const logBar = useCallback((bar: QueuedBar) => {
+    const log = sessionLogRef.current;
+    if (!log) return;
+    unloggedMessagesRef.current.forEach(message => {
+        const offset = (message.time ?? bar.time) - bar.time;
+        if (message.type === 'sparkle') log.events.push({ type: 'sparkle', barIndex: bar.barIndex, offset, variant: message.variant ?? 0 });
+        else if (message.type === 'pad' && message.padName) log.events.push({ type: 'pad', barIndex: bar.barIndex, offset, padName: message.padName });
+    });
+    unloggedMessagesRef.current = [];
+    log.events.push({ type: 'score', barIndex: bar.barIndex, barDuration: bar.barDuration, score: bar.score });
+    nextBarIndexRef.current = bar.barIndex + 1;
+  }, []);
+
+  const enqueueBar = useCallback((bar: QueuedBar) => {
+    barDurationRef.current = bar.barDuration;
+    nextBarTimeRef.current = bar.time + bar.barDuration;
+    const now = audioContextRef.current?.currentTime ?? 0;
+    if (bar.time < now) monitorRef.current?.reportUnderrun(); // The bar came too late to start on time.
+    scheduleScore(bar);
+  }, [scheduleScore]);
+
+  // Instrument presets and the bass technique live on the main thread, outside the worker.
+  const applyInstrumentPresets = useCallback((settings: WorkerSettings | null) => {
+    const instruments = instrumentsRef.current;
+    if (!instruments || !settings) return;
+    const { bass, melody, accompaniment } = settings.instrumentSettings;
+    instruments.bass.setPreset(bass.name);
+    instruments.bass.setTechnique(bass.technique);
+    instruments.melody.setPreset(melody.name);
+    instruments.accompaniment.setPreset(accompaniment.name);
+    instruments.drums.setKit(settings.drumSettings.kit ?? DEFAULT_DRUM_KIT);
+  }, []);
+
+  // Reads the log up to and including the next bar, as the worker would have sent it.
+  // Returns false once the log is exhausted.
+  const replayNextBar = useCallback((replay: Replay, time: number) => {
+    const { events } = replay.log;
+    while (replay.position < events.length) {
+        const event = events[replay.position++];
+        if (event.type === 'settings') {
+            replay.settings = event.settings;
+            applyInstrumentPresets(event.settings);
+        }
+        else if (event.type === 'sparkle') instrumentsRef.current?.sparkles.playSparkle(time + event.offset, event.variant);
+        else if (event.type === 'pad') instrumentsRef.current?.pads.setPad(event.padName, time + event.offset);
+        else if (event.type === 'score') {
+            enqueueBar({ time, barIndex: event.barIndex, barDuration: event.barDuration, score: event.score });
+            return true;
         }
     }
-    
-    const accompanimentScore = score.accompaniment || [];
-    if (accompanimentScore.length > 0 && accompanimentManagerRef.current && currentSettings?.instrumentSettings.accompaniment.name !== 'none') {
-        accompanimentManagerRef.current.schedule(accompanimentScore, now);
+    return false;
+  }, [applyInstrumentPresets, enqueueBar]);
+
+  const runPhraseActions = useCallback(() => {
+    const actions = phraseActionsRef.current;
+    phraseActionsRef.current = [];
+    actions.forEach(action => action());
+  }, []);
+
+  const stopScheduler = useCallback(() => {
+    runPhraseActions(); // Nothing waits for a phrase that is not coming.
+    if (schedulerTimerRef.current) {
+        clearInterval(schedulerTimerRef.current);
+        schedulerTimerRef.current = null;
     }
+    barQueueRef.current = [];
+    barRequestPendingRef.current = false;
+    uiTimeoutsRef.current.forEach(clearTimeout);
+    uiTimeoutsRef.current.clear();
+    setSection(null);
+  }, [runPhraseActions]);
 
-    const drumScore = score.drums || [];
-    if (drumScore.length > 0 && drumMachineRef.current && currentSettings?.drumSettings.enabled) {
-        drumMachineRef.current.schedule(drumScore, now);
+  const stopAllSounds = useCallback(() => {
+    instrumentsRef.current?.accompaniment.allNotesOff();
+    instrumentsRef.current?.bass.allNotesOff();
+    instrumentsRef.current?.melody.allNotesOff();
+    instrumentsRef.current?.drums.stop();
+    instrumentsRef.current?.pads.stop();
+  }, []);
+
+  // Hands the instruments back to the live settings.
+  const endReplay = useCallback(() => {
+    if (!replayRef.current) return;
+    replayRef.current = null;
+    setIsReplaying(false);
+    applyInstrumentPresets(settingsRef.current);
+  }, [applyInstrumentPresets]);
+
+  // Puts the engine on a performance profile: polyphony, effect quality, pad preloading and lookahead.
+  const applyProfile = useCallback((profile: PerformanceProfile) => {
+    const settings = PROFILES[profile];
+    profileRef.current = profile;
+    lookaheadBarsRef.current = settings.lookaheadBars;
+    setPerformanceProfile(profile);
+    const instruments = instrumentsRef.current;
+    if (instruments) {
+        instruments.melody.setVoiceLimit(settings.melodyVoices);
+        instruments.melody.setMaxRelease(settings.maxRelease);
+        instruments.pads.setPreload(settings.preloadPads);
+        monitorRef.current?.watch(workletNodes(instruments)); // New melody voices included.
     }
-    console.timeEnd('scheduleScore');
+    mixerRef.current?.bus.setQuality(settings.reverbLength, settings.oversample);
   }, []);
 
+  // In 'auto' mode, follows the monitor's measurements from one profile to the next.
+  const adaptProfile = useCallback(() => {
+    const monitor = monitorRef.current;
+    if (!monitor) return;
+    monitor.sample();
+    if (performanceModeRef.current !== 'auto') return;
+    const next = monitor.recommend(profileRef.current);
+    if (next === profileRef.current) return;
+    applyProfile(next);
+  }, [applyProfile]);
+
+  // Runs every SCHEDULER_INTERVAL_MS while playing: tops up the lookahead queue and records
+  // the bars that have started. The next bar comes from the worker, or from the session log
+  // while replaying.
+  const pumpScheduler = useCallback(() => {
+    const context = audioContextRef.current;
+    const worker = workerRef.current;
+    if (!context || !worker) return;
+    const now = context.currentTime;
+    const replay = replayRef.current;
+    adaptProfile();
+
+    if (!barRequestPendingRef.current && !replay?.finished) {
+        // If we fell behind (e.g. the tab was frozen), skip ahead instead of cramming missed bars in.
+        if (nextBarTimeRef.current < now) nextBarTimeRef.current = now + START_DELAY;
+        const minLookahead = typeof document !== 'undefined' && document.hidden ? HIDDEN_LOOKAHEAD : MIN_LOOKAHEAD;
+        if (nextBarTimeRef.current - now < Math.max(barDurationRef.current * lookaheadBarsRef.current, minLookahead)) {
+            if (replay) {
+                replay.finished = !replayNextBar(replay, nextBarTimeRef.current);
+            } else {
+                // Settings posted by these actions reach the worker before the bar they apply to.
+                if (nextBarIndexRef.current % PHRASE_BARS === 0) runPhraseActions();
+                barRequestPendingRef.current = true;
+                worker.postMessage({ command: 'tick', data: { time: nextBarTimeRef.current } });
+            }
+        }
+    }
+
+    const queue = barQueueRef.current;
+    while (queue.length > 0 && queue[0].time <= now) recordedBarsRef.current.push(queue.shift()!.recorded);
+
+    // The replay stops by itself once its last bar has been heard.
+    if (replay?.finished && queue.length === 0 && now >= nextBarTimeRef.current) {
+        stopScheduler();
+        stopAllSounds();
+        endReplay();
+        setIsPlaying(false);
+    }
+  }, [replayNextBar, runPhraseActions, stopScheduler, stopAllSounds, endReplay, adaptProfile]);
+
   const initialize = useCallback(async () => {
     if (isInitialized || isInitializing) return true;
     
@@ -140,7 +306,7 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
     try {
         if (!audioContextRef.current) {
             audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-                 sampleRate: isMobile() ? 44100 : 44100, latencyHint: 'interactive'
+                 sampleRate: 44100, latencyHint: 'interactive'
             });
         }
 
@@ -148,77 +314,64 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
 
         const context = audioContextRef.current;
         
-        if (!masterGainNodeRef.current) {
-            masterGainNodeRef.current = context.createGain();
-            const eqChain: BiquadFilterNode[] = EQ_FREQUENCIES.map((freq, i) => {
-                const filter = context.createBiquadFilter();
-                filter.type = (i === 0) ? 'lowshelf' : (i === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking');
-                filter.frequency.value = freq;
-                filter.Q.value = 1.0;
-                filter.gain.value = 0;
-                return filter;
-            });
-            eqChain.forEach((filter, i) => {
-              if (i < eqChain.length - 1) filter.connect(eqChain[i+1]);
-            });
-            eqChain[eqChain.length - 1].connect(context.destination);
-            eqNodesRef.current = eqChain;
-            masterGainNodeRef.current.connect(eqChain[0]);
-        }
-
-        if (!gainNodesRef.current.bass) {
-            const parts: InstrumentPart[] = ['bass', 'melody', 'accompaniment', 'effects', 'drums', 'sparkles', 'pads'];
-            parts.forEach(part => {
-                gainNodesRef.current[part] = context.createGain();
-                gainNodesRef.current[part]!.connect(masterGainNodeRef.current!);
-            });
+        if (!mixerRef.current) {
+            mixerRef.current = createMixer(context, context.destination);
         }
 
         const initPromises: Promise<any>[] = [];
-        if (!drumMachineRef.current) {
-            drumMachineRef.current = new DrumMachine(context, gainNodesRef.current.drums!);
-            initPromises.push(drumMachineRef.current.init());
-        }
-        if (!accompanimentManagerRef.current) {
-            accompanimentManagerRef.current = new AccompanimentSynthManager(context, gainNodesRef.current.accompaniment!);
-            initPromises.push(accompanimentManagerRef.current.init());
-        }
-        if (!bassManagerRef.current) {
-            bassManagerRef.current = new BassSynthManager(context, gainNodesRef.current.bass!);
-            initPromises.push(bassManagerRef.current.init());
-        }
-        if (!sparklePlayerRef.current) {
-            sparklePlayerRef.current = new SparklePlayer(context, gainNodesRef.current.sparkles!);
-            initPromises.push(sparklePlayerRef.current.init());
-        }
-        if (!padPlayerRef.current) {
-            padPlayerRef.current = new PadPlayer(context, gainNodesRef.current.pads!);
-            initPromises.push(padPlayerRef.current.init());
+        if (!instrumentsRef.current) {
+            instrumentsRef.current = createInstruments(context, mixerRef.current, PROFILES[profileRef.current].melodyVoices);
+            initPromises.push(initInstruments(instrumentsRef.current));
         }
 
         if (!workerRef.current) {
             const worker = new Worker(new URL('../lib/ambient.worker.ts', import.meta.url), { type: 'module' });
             worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
                 const now = audioContextRef.current?.currentTime ?? 0;
-                const scheduleTime = event.data.time ? now + event.data.time : now;
-
-                if (event.data.type === 'score' && event.data.score) scheduleScore(event.data.score, context);
-                else if (event.data.type === 'sparkle') sparklePlayerRef.current?.playRandomSparkle(scheduleTime);
-                else if (event.data.type === 'pad' && event.data.padName) padPlayerRef.current?.setPad(event.data.padName, scheduleTime);
+                const scheduleTime = event.data.time ?? now;
+
+                // A late reply after stop, or one from before a replay took over.
+                if (['score', 'sparkle', 'pad'].includes(event.data.type) && (!schedulerTimerRef.current || replayRef.current)) return;
+
+                if (event.data.type === 'score' && event.data.score) {
+                    const bar = {
+                        time: scheduleTime,
+                        barIndex: event.data.barIndex ?? 0,
+                        barDuration: event.data.barDuration ?? barDurationRef.current,
+                        score: event.data.score,
+                    };
+                    logBar(bar);
+                    enqueueBar(bar);
+                    barRequestPendingRef.current = false;
+                    pumpScheduler();
+                }
+                else if (event.data.type === 'sparkle') {
+                    unloggedMessagesRef.current.push(event.data);
+                    instrumentsRef.current?.sparkles.playSparkle(scheduleTime, event.data.variant ?? 0);
+                }
+                else if (event.data.type === 'pad' && event.data.padName) {
+                    unloggedMessagesRef.current.push(event.data);
+                    instrumentsRef.current?.pads.setPad(event.data.padName, scheduleTime);
+                }
+                else if (event.data.type === 'section' && event.data.section) {
+                    // Sections are announced a bar or two early; show them when they are heard.
+                    const name = event.data.section;
+                    atAudibleTime(scheduleTime - now, () => setSection(name));
+                }
+                else if (event.data.type === 'genome' && event.data.genome) {
+                    const nextGenome = event.data.genome;
+                    atAudibleTime(scheduleTime - now, () => setGenome(nextGenome));
+                }
                 else if (event.data.type === 'error') toast({ variant: "destructive", title: "Worker Error", description: event.data.error });
             };
             workerRef.current = worker;
         }
         
-        if(synthPoolRef.current.length === 0) {
-            initPromises.push(context.audioWorklet.addModule('/worklets/synth-processor.js').then(() => {
-                const numVoices = isMobile() ? 4 : 8;
-                synthPoolRef.current = Array.from({ length: numVoices }, () => new AudioWorkletNode(context, 'synth-processor'));
-            }));
-        }
-        
         await Promise.all(initPromises);
 
+        if (!monitorRef.current) monitorRef.current = new PerformanceMonitor(context);
+        applyProfile(profileRef.current);
+
         setIsInitialized(true);
         return true;
     } catch (e) {
@@ -229,46 +382,101 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
     } finally {
         setIsInitializing(false);
     }
-  }, [isInitialized, isInitializing, toast, scheduleScore]);
+  }, [isInitialized, isInitializing, toast, pumpScheduler, atAudibleTime, logBar, enqueueBar, applyProfile]);
+
+  const startScheduler = useCallback((bpm: number) => {
+    const context = audioContextRef.current;
+    if (!context) return;
+    if (context.state === 'suspended') context.resume();
+    stopScheduler();
+    recordedBarsRef.current = [];
+    nextBarTimeRef.current = context.currentTime + START_DELAY;
+    barDurationRef.current = (60 / bpm) * 4;
+    monitorRef.current?.reset();
+    schedulerTimerRef.current = setInterval(pumpScheduler, SCHEDULER_INTERVAL_MS);
+    pumpScheduler();
+  }, [stopScheduler, pumpScheduler]);
 
-  const stopAllSounds = useCallback(() => {
-    accompanimentManagerRef.current?.allNotesOff();
-    bassManagerRef.current?.allNotesOff();
-    padPlayerRef.current?.stop();
-  }, []);
-  
   const setIsPlayingCallback = useCallback((playing: boolean) => {
     setIsPlaying(playing);
     if (!isInitialized || !workerRef.current || !audioContextRef.current) return;
     if (playing) {
-        if (audioContextRef.current.state === 'suspended') {
-            audioContextRef.current.resume();
-        }
+        endReplay();
+        // Every live session is recorded from its first bar.
+        sessionLogRef.current = settingsRef.current ? createSessionLog(settingsRef.current) : null;
+        unloggedMessagesRef.current = [];
+        nextBarIndexRef.current = 0;
         workerRef.current.postMessage({ command: 'start' });
+        startScheduler(settingsRef.current?.bpm ?? 75);
     } else {
+        stopScheduler();
         stopAllSounds();
+        endReplay();
         workerRef.current.postMessage({ command: 'stop' });
     }
-  }, [isInitialized, stopAllSounds]);
+  }, [isInitialized, stopAllSounds, stopScheduler, startScheduler, endReplay]);
+
+  // Checks the refs rather than isInitialized, so it can run right after initialize().
+  const startReplay = useCallback((log: SessionLog) => {
+    if (!workerRef.current || !audioContextRef.current) return;
+    stopScheduler();
+    stopAllSounds();
+    workerRef.current.postMessage({ command: 'stop' });
+
+    replayRef.current = { log, position: 0, settings: log.settings, finished: false };
+    applyInstrumentPresets(log.settings);
+    setIsReplaying(true);
+    setIsPlaying(true);
+    startScheduler(log.settings.bpm);
+  }, [stopAllSounds, stopScheduler, startScheduler, applyInstrumentPresets]);
+
+  // Live playback waits for the worker's next phrase; otherwise there is nothing to wait for.
+  const atNextPhrase = useCallback((action: () => void) => {
+    if (!schedulerTimerRef.current || replayRef.current) {
+        action();
+        return;
+    }
+    phraseActionsRef.current.push(action);
+  }, []);
 
   const updateSettingsCallback = useCallback((settings: Partial<WorkerSettings>) => {
      if (!isInitialized || !workerRef.current) return;
      const newSettings = { ...settingsRef.current, ...settings } as WorkerSettings;
      settingsRef.current = newSettings;
+     const log = sessionLogRef.current;
+     if (log && schedulerTimerRef.current && !replayRef.current) {
+        // The worker only applies settings at the next bar, so one entry per bar is enough.
+        const entry = { type: 'settings' as const, barIndex: nextBarIndexRef.current, settings: newSettings };
+        const last = log.events[log.events.length - 1];
+        if (last?.type === 'settings' && last.barIndex === entry.barIndex) log.events[log.events.length - 1] = entry;
+        else log.events.push(entry);
+     }
+     if (!replayRef.current) instrumentsRef.current?.drums.setKit(newSettings.drumSettings.kit);
      workerRef.current.postMessage({ command: 'update_settings', data: newSettings });
   }, [isInitialized]);
 
   const setVolumeCallback = useCallback((part: InstrumentPart, volume: number) => {
-    const gainNode = gainNodesRef.current[part];
+    const gainNode = mixerRef.current?.parts[part];
     if (gainNode) {
-        const balancedVolume = volume * (VOICE_BALANCE[part as keyof typeof VOICE_BALANCE] ?? 1);
-        gainNode.gain.setTargetAtTime(balancedVolume, audioContextRef.current?.currentTime ?? 0, 0.01);
+        gainNode.gain.setTargetAtTime(balancedVolume(part, volume), audioContextRef.current?.currentTime ?? 0, 0.01);
     }
   }, []);
 
+  const setChannelCallback = useCallback((part: MixerPart, settings: ChannelSettings) => {
+    const channel = mixerRef.current?.channels[part];
+    if (channel) applyChannel(channel, settings, audioContextRef.current?.currentTime ?? 0);
+  }, []);
+
+  const setMuteSoloCallback = useCallback((mutes: Partial<Record<MixerPart, boolean>>, solos: Partial<Record<MixerPart, boolean>>) => {
+    if (mixerRef.current) applyMuteSolo(mixerRef.current, mutes, solos, audioContextRef.current?.currentTime ?? 0);
+  }, []);
+
+  const getLevels = useCallback(() => mixerRef.current ? readLevels(mixerRef.current) : null, []);
+
   const setInstrumentCallback = useCallback((part: 'bass' | 'melody' | 'accompaniment', name: BassInstrument | MelodyInstrument | AccompanimentInstrument) => {
-    if (part === 'accompaniment') accompanimentManagerRef.current?.setPreset(name as MelodyInstrument);
-    if (part === 'bass') bassManagerRef.current?.setPreset(name as BassInstrument);
+    if (part === 'accompaniment') instrumentsRef.current?.accompaniment.setPreset(name as MelodyInstrument);
+    if (part === 'melody') instrumentsRef.current?.melody.setPreset(name as MelodyInstrument);
+    if (part === 'bass') instrumentsRef.current?.bass.setPreset(name as BassInstrument);
     if (settingsRef.current) {
       const newSettings = {...settingsRef.current, instrumentSettings: {...settingsRef.current.instrumentSettings, [part]: {...settingsRef.current.instrumentSettings[part], name}}};
       updateSettingsCallback(newSettings);
@@ -276,7 +484,7 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
   }, [updateSettingsCallback]);
 
   const setBassTechniqueCallback = useCallback((technique: BassTechnique) => {
-    bassManagerRef.current?.setTechnique(technique);
+    instrumentsRef.current?.bass.setTechnique(technique);
      if (settingsRef.current) {
       const newSettings = {...settingsRef.current, instrumentSettings: {...settingsRef.current.instrumentSettings, bass: {...settingsRef.current.instrumentSettings.bass, technique}}};
       updateSettingsCallback(newSettings);
@@ -284,8 +492,8 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
   }, [updateSettingsCallback]);
 
   const setTextureSettingsCallback = useCallback((settings: TextureSettings) => {
-    sparklePlayerRef.current?.setVolume(settings.sparkles.volume);
-    padPlayerRef.current?.setVolume(settings.pads.volume);
+    instrumentsRef.current?.sparkles.setVolume(settings.sparkles.volume);
+    instrumentsRef.current?.pads.setVolume(settings.pads.volume);
     if (settingsRef.current) {
         const newSettings = {...settingsRef.current, textureSettings: { sparkles: { enabled: settings.sparkles.enabled }, pads: { enabled: settings.pads.enabled }}};
         updateSettingsCallback(newSettings);
@@ -293,32 +501,66 @@ export const AudioEngineProvider = ({ children }: { children: React.ReactNode })
   }, [updateSettingsCallback]);
 
   const setEQGainCallback = useCallback((bandIndex: number, gain: number) => {
-      const filterNode = eqNodesRef.current[bandIndex];
+      const filterNode = mixerRef.current?.eq[bandIndex];
       if (filterNode && audioContextRef.current) {
           filterNode.gain.setTargetAtTime(gain, audioContextRef.current.currentTime, 0.01);
       }
   }, []);
 
+  const setMasterBusCallback = useCallback((settings: MasterBusSettings) => {
+      mixerRef.current?.bus.apply(settings);
+  }, []);
+
+  // 'auto' keeps the profile in use and adapts from there; any other mode pins that profile.
+  const setPerformanceMode = useCallback((mode: PerformanceMode) => {
+    performanceModeRef.current = mode;
+    if (mode !== 'auto') applyProfile(mode);
+  }, [applyProfile]);
+
+  const getPerformance = useCallback(() =>
+    monitorRef.current?.status(performanceModeRef.current, profileRef.current, instrumentsRef.current?.melody.getUsage() ?? null) ?? null, []);
+
+  const likeGenome = useCallback(() => {
+    workerRef.current?.postMessage({ command: 'like' });
+  }, []);
+
+  // Tops the queue up to the background lookahead right away when the tab is hidden, before
+  // the browser starts throttling the scheduler's timer.
+  useEffect(() => {
+    const onVisibilityChange = () => {
+        if (document.hidden && schedulerTimerRef.current) pumpScheduler();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [pumpScheduler]);
+
+  const getRecordedBars = useCallback(() => recordedBarsRef.current, []);
+  const getSessionLog = useCallback(() => sessionLogRef.current, []);
+
   const startMasterFadeOut = useCallback((durationInSeconds: number) => {
-      if (masterGainNodeRef.current && audioContextRef.current) {
-          masterGainNodeRef.current.gain.linearRampToValueAtTime(0, audioContextRef.current.currentTime + durationInSeconds);
+      const master = mixerRef.current?.master;
+      if (master && audioContextRef.current) {
+          master.gain.linearRampToValueAtTime(0, audioContextRef.current.currentTime + durationInSeconds);
       }
   }, []);
 
   const cancelMasterFadeOut = useCallback(() => {
-      if (masterGainNodeRef.current && audioContextRef.current) {
-          masterGainNodeRef.current.gain.cancelScheduledValues(audioContextRef.current.currentTime);
-          masterGainNodeRef.current.gain.linearRampToValueAtTime(1, audioContextRef.current.currentTime + 0.5);
+      const master = mixerRef.current?.master;
+      if (master && audioContextRef.current) {
+          master.gain.cancelScheduledValues(audioContextRef.current.currentTime);
+          master.gain.linearRampToValueAtTime(1, audioContextRef.current.currentTime + 0.5);
       }
   }, []);
 
   return (
     <AudioEngineContext.Provider value={{
-        isInitialized, isInitializing, isPlaying, initialize,
+        isInitialized, isInitializing, isPlaying, isReplaying, section, genome, likeGenome, getRecordedBars, getSessionLog, startReplay, atNextPhrase, initialize,
         setIsPlaying: setIsPlayingCallback, updateSettings: updateSettingsCallback,
-        setVolume: setVolumeCallback, setInstrument: setInstrumentCallback,
+        setVolume: setVolumeCallback, setChannel: setChannelCallback,
+        setMuteSolo: setMuteSoloCallback, getLevels, setInstrument: setInstrumentCallback,
         setBassTechnique: setBassTechniqueCallback, setTextureSettings: setTextureSettingsCallback,
-        setEQGain: setEQGainCallback, startMasterFadeOut, cancelMasterFadeOut,
+        setEQGain: setEQGainCallback, setMasterBus: setMasterBusCallback,
+        performanceProfile, setPerformanceMode, getPerformance, startMasterFadeOut, cancelMasterFadeOut,
     }}>
       {children}
     </AudioEngineContext.Provider>
@@ -3,10 +3,25 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-import type { DrumSettings, InstrumentSettings, ScoreName, WorkerSettings, BassInstrument, InstrumentPart, MelodyInstrument, AccompanimentInstrument, BassTechnique, TextureSettings, TimerSettings } from '@/types/music';
+import type { DrumSettings, InstrumentSettings, ScoreName, WorkerSettings, BassInstrument, InstrumentPart, MelodyInstrument, AccompanimentInstrument, BassTechnique, TextureSettings, TimerSettings, KeySettings, ExportSettings, Scene, SceneState, SceneMorph, MasterBusSettings, MixerPart, ChannelSettings, PerformanceMode } from '@/types/music';
 import { useAudioEngine } from "@/contexts/audio-engine-context";
+import { normalizeSeed, randomSeed } from "@/lib/random";
+import { renderOffline } from "@/lib/offline-renderer";
+import { encodeWav } from "@/lib/wav-encoder";
+import { encodeMidi } from "@/lib/midi-export";
+import { parseSessionLog, serializeSessionLog } from "@/lib/session-log";
+import { createScene, duplicateScene, loadLastState, loadPerformanceMode, loadScenes, saveLastState, savePerformanceMode, saveScenes } from "@/lib/scene-store";
+import { DEFAULT_MASTER_BUS } from "@/lib/master-bus";
+import { DEFAULT_CHANNELS } from "@/lib/audio-graph";
+import { DEFAULT_DRUM_KIT } from "@/lib/drum-kits";
+import { decodeShareLink, encodeShareLink } from "@/lib/share-link";
+import { morphSceneState, morphSide, type MorphSide } from "@/lib/scene-morph";
+import { downloadBlob } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
 
 const FADE_OUT_DURATION = 120; // 2 minutes
+const PERSIST_DELAY_MS = 500; // The last-used state is saved once the controls settle.
+const MORPH_STEP_MS = 250;
 
 /**
  * Облегченная версия хука для стартового экрана.
@@ -59,21 +74,36 @@ export const useAuraGroove = () => {
     isInitialized,
     isInitializing,
     isPlaying, 
+    isReplaying,
+    section,
+    genome,
+    likeGenome,
+    getRecordedBars,
+    getSessionLog,
+    startReplay,
+    atNextPhrase,
     initialize, 
     setIsPlaying: setEngineIsPlaying, 
     updateSettings, 
     setVolume, 
+    setChannel,
+    setMuteSolo,
+    getLevels,
     setInstrument, 
     setBassTechnique,
     setTextureSettings: setEngineTextureSettings,
     setEQGain,
+    setMasterBus: setEngineMasterBus,
+    performanceProfile,
+    setPerformanceMode: setEnginePerformanceMode,
+    getPerformance,
     startMasterFadeOut,
     cancelMasterFadeOut,
   } = useAudioEngine();
   
   const router = useRouter();
   
-  const [drumSettings, setDrumSettings] = useState<DrumSettings>({ pattern: 'composer', volume: 0.5 });
+  const [drumSettings, setDrumSettings] = useState<DrumSettings>({ pattern: 'composer', kit: DEFAULT_DRUM_KIT, volume: 0.5 });
   const [instrumentSettings, setInstrumentSettings] = useState<InstrumentSettings>({
     bass: { name: "glideBass", volume: 0.7, technique: 'arpeggio' },
     melody: { name: "synth", volume: 0.6 },
@@ -84,11 +114,24 @@ export const useAuraGroove = () => {
       pads: { enabled: true, volume: 0.4 },
   });
   const [bpm, setBpm] = useState(75);
+  const [tempoRampBars, setTempoRampBars] = useState(0);
   const [score, setScore] = useState<ScoreName>('multeity');
   const [density, setDensity] = useState(0.5);
+  const [motifRecurrence, setMotifRecurrence] = useState(0.5);
+  const [evolution, setEvolution] = useState(false);
+  const [likedGeneration, setLikedGeneration] = useState<number | null>(null);
+  const appliedGenerationRef = useRef<number | null>(null);
+  const [keySettings, setKeySettings] = useState<KeySettings>({ root: 4, mode: 'aeolian' });
+  const [seed, setSeed] = useState(0);
 
   const [isEqModalOpen, setIsEqModalOpen] = useState(false);
   const [eqSettings, setEqSettings] = useState<number[]>(Array(7).fill(0));
+  const [masterBus, setMasterBus] = useState<MasterBusSettings>(DEFAULT_MASTER_BUS);
+  const [channels, setChannels] = useState<Record<MixerPart, ChannelSettings>>(DEFAULT_CHANNELS);
+  // Monitoring only: mutes and solos are not part of a scene.
+  const [mutes, setMutes] = useState<Partial<Record<MixerPart, boolean>>>({});
+  const [solos, setSolos] = useState<Partial<Record<MixerPart, boolean>>>({});
+  const [performanceMode, setPerformanceMode] = useState<PerformanceMode>('auto');
   
   const [timerSettings, setTimerSettings] = useState<TimerSettings>({
     duration: 0, // in seconds
@@ -97,6 +140,22 @@ export const useAuraGroove = () => {
   });
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  const [exportSettings, setExportSettings] = useState<ExportSettings>({ minutes: 5, bitDepth: 16 });
+  const [exportProgress, setExportProgress] = useState<number | null>(null); // null while not exporting
+  const { toast } = useToast();
+
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [isRestored, setIsRestored] = useState(false); // Nothing is persisted before the last state is back.
+
+  const [morph, setMorph] = useState<SceneMorph>({ fromId: null, toId: null, seconds: 60, position: 0, isRunning: false });
+  const morphRef = useRef(morph);
+  morphRef.current = morph;
+  const morphSideRef = useRef<MorphSide | null>(null); // Whose discrete settings are in effect; null until the crossfader is first used.
+  const morphSwitchPendingRef = useRef(false);
+  const morphDirectionRef = useRef(1);
+  const applyMorphPositionRef = useRef<(position: number) => void>(() => {});
+  const switchMorphSideRef = useRef<() => void>(() => {});
+
 
   const getFullSettings = useCallback((): WorkerSettings => {
     return {
@@ -109,8 +168,112 @@ export const useAuraGroove = () => {
           pads: { enabled: textureSettings.pads.enabled },
       },
       density,
+      key: keySettings,
+      seed,
+      tempoRampBars,
+      motifRecurrence,
+      evolution,
+    };
+  }, [bpm, tempoRampBars, score, instrumentSettings, drumSettings, textureSettings, density, motifRecurrence, evolution, keySettings, seed]);
+
+  const getSceneState = useCallback((): SceneState => ({
+    settings: getFullSettings(),
+    volumes: {
+      bass: instrumentSettings.bass.volume,
+      melody: instrumentSettings.melody.volume,
+      accompaniment: instrumentSettings.accompaniment.volume,
+      drums: drumSettings.volume,
+      sparkles: textureSettings.sparkles.volume,
+      pads: textureSettings.pads.volume,
+    },
+    channels,
+    eq: eqSettings,
+    masterBus,
+    timerMinutes: timerSettings.duration / 60,
+  }), [getFullSettings, instrumentSettings, drumSettings, textureSettings, channels, eqSettings, masterBus, timerSettings.duration]);
+
+  // Puts a saved state back into the controls and, once the engine runs, into the engine.
+  // Fields the saved state does not have keep their current values.
+  const applySceneState = useCallback((state: SceneState) => {
+    const settings = { ...getFullSettings(), ...state.settings };
+    const volumes = { ...getSceneState().volumes, ...state.volumes };
+    const nextChannels = { ...channels, ...state.channels };
+    const nextMasterBus = state.masterBus ?? masterBus;
+    const nextInstruments: InstrumentSettings = {
+      bass: { ...settings.instrumentSettings.bass, volume: volumes.bass },
+      melody: { ...settings.instrumentSettings.melody, volume: volumes.melody },
+      accompaniment: { ...settings.instrumentSettings.accompaniment, volume: volumes.accompaniment },
+    };
+    const nextTextures: TextureSettings = {
+      sparkles: { enabled: settings.textureSettings.sparkles.enabled, volume: volumes.sparkles },
+      pads: { enabled: settings.textureSettings.pads.enabled, volume: volumes.pads },
     };
-  }, [bpm, score, instrumentSettings, drumSettings, textureSettings, density]);
+
+    setBpm(settings.bpm);
+    setTempoRampBars(settings.tempoRampBars);
+    setScore(settings.score);
+    setDensity(settings.density);
+    setMotifRecurrence(settings.motifRecurrence);
+    setEvolution(settings.evolution);
+    setKeySettings(settings.key);
+    setSeed(settings.seed);
+    setInstrumentSettings(nextInstruments);
+    setDrumSettings({ pattern: settings.drumSettings.pattern, kit: settings.drumSettings.kit ?? DEFAULT_DRUM_KIT, volume: volumes.drums });
+    setTextureSettings(nextTextures);
+    setEqSettings(state.eq.length === eqSettings.length ? state.eq : eqSettings);
+    setChannels(nextChannels);
+    setMasterBus(nextMasterBus);
+    setTimerSettings(prev => prev.isActive ? prev : { ...prev, duration: state.timerMinutes * 60, timeLeft: state.timerMinutes * 60 });
+
+    if (isInitialized) {
+      (['bass', 'melody', 'accompaniment'] as const).forEach(part => {
+        setInstrument(part, nextInstruments[part].name);
+        setVolume(part, volumes[part]);
+      });
+      setBassTechnique(nextInstruments.bass.technique);
+      setVolume('drums', volumes.drums);
+      setEngineTextureSettings(nextTextures);
+      state.eq.forEach((gain, band) => setEQGain(band, gain));
+      (Object.entries(nextChannels) as [MixerPart, ChannelSettings][]).forEach(([part, channel]) => setChannel(part, channel));
+      setEngineMasterBus(nextMasterBus);
+    }
+  }, [getFullSettings, getSceneState, channels, eqSettings, masterBus, isInitialized, setInstrument, setVolume, setChannel, setBassTechnique, setEngineTextureSettings, setEQGain, setEngineMasterBus]);
+
+  // Brings back the last-used state and the saved scenes, then whatever a shared link in the
+  // URL says on top of it. Without a last state, every visit starts a fresh session; the seed
+  // is rolled on the client to avoid a hydration mismatch.
+  useEffect(() => {
+    setScenes(loadScenes());
+    setPerformanceMode(loadPerformanceMode());
+    const lastState = loadLastState();
+    let state = lastState;
+    // The link has done its job once read; later changes should not be undone by a reload.
+    const clearLink = () => window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    try {
+      const shared = decodeShareLink(window.location.hash, lastState ?? getSceneState());
+      if (shared) {
+        clearLink();
+        state = shared.state;
+        if (shared.ignored.length > 0) {
+          toast({ title: "Some shared settings were skipped", description: `Invalid or missing in the link: ${shared.ignored.join(', ')}.` });
+        }
+      }
+    } catch (e) {
+      clearLink();
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      toast({ variant: "destructive", title: "Could not open the shared link", description: errorMessage });
+    }
+
+    if (state) applySceneState(state);
+    else setSeed(randomSeed());
+    setIsRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timeoutId = setTimeout(() => saveLastState(getSceneState()), PERSIST_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isRestored, getSceneState]);
 
   // Initial settings sync
   useEffect(() => {
@@ -128,6 +291,10 @@ export const useAuraGroove = () => {
         setInstrument('accompaniment', instrumentSettings.accompaniment.name);
         
         setBassTechnique(instrumentSettings.bass.technique);
+        eqSettings.forEach((gain, band) => setEQGain(band, gain));
+        (Object.entries(channels) as [MixerPart, ChannelSettings][]).forEach(([part, channel]) => setChannel(part, channel));
+        setEngineMasterBus(masterBus);
+        setEnginePerformanceMode(performanceMode);
     }
   }, [isInitialized]);
 
@@ -137,7 +304,26 @@ export const useAuraGroove = () => {
           const fullSettings = getFullSettings();
           updateSettings(fullSettings);
       }
-  }, [bpm, score, density, drumSettings, instrumentSettings, textureSettings, isInitialized, updateSettings, getFullSettings]);
+  }, [bpm, tempoRampBars, score, density, motifRecurrence, evolution, keySettings, seed, drumSettings, instrumentSettings, textureSettings, isInitialized, updateSettings, getFullSettings]);
+
+  useEffect(() => {
+      if (isInitialized) setMuteSolo(mutes, solos);
+  }, [mutes, solos, isInitialized, setMuteSolo]);
+
+  // Evolution may swap the mode or an instrument; mirror each new generation in the controls.
+  // The worker tells these from picks made by hand: they are what the genome already holds.
+  useEffect(() => {
+    if (!evolution || !genome || appliedGenerationRef.current === genome.generation) return;
+    appliedGenerationRef.current = genome.generation;
+
+    if (genome.mode !== keySettings.mode) setKeySettings(prev => ({ ...prev, mode: genome.mode }));
+    (['bass', 'melody', 'accompaniment'] as const).forEach(part => {
+        const name = genome.instruments[part];
+        if (name === instrumentSettings[part].name) return;
+        setInstrumentSettings(prev => ({ ...prev, [part]: { ...prev[part], name } }));
+        setInstrument(part, name);
+    });
+  }, [genome, evolution, keySettings.mode, instrumentSettings, setInstrument]);
 
   // Timer logic
   useEffect(() => {
@@ -225,6 +411,259 @@ export const useAuraGroove = () => {
       });
   };
 
+  const handleChannelChange = (part: MixerPart, changes: Partial<ChannelSettings>) => {
+      const channel = { ...channels[part], ...changes };
+      setChannels(prev => ({ ...prev, [part]: channel }));
+      setChannel(part, channel);
+  };
+
+  const handleToggleMute = (part: MixerPart) => {
+      setMutes(prev => ({ ...prev, [part]: !prev[part] }));
+  };
+
+  const handleToggleSolo = (part: MixerPart) => {
+      setSolos(prev => ({ ...prev, [part]: !prev[part] }));
+  };
+
+  const handleMasterBusChange = (settings: MasterBusSettings) => {
+      setMasterBus(settings);
+      setEngineMasterBus(settings);
+  };
+
+  const handlePerformanceModeChange = (mode: PerformanceMode) => {
+      setPerformanceMode(mode);
+      savePerformanceMode(mode);
+      setEnginePerformanceMode(mode);
+  };
+
+  const handleLike = () => {
+      if (!genome) return;
+      likeGenome();
+      setLikedGeneration(genome.generation);
+  };
+
+  const handleSeedChange = (value: number) => {
+      setSeed(normalizeSeed(value));
+  };
+
+  const handleNewSeed = () => {
+      setSeed(randomSeed());
+  };
+
+  const handleExport = async () => {
+      if (exportProgress !== null) return;
+      setExportProgress(0);
+      try {
+          const buffer = await renderOffline({
+              settings: getFullSettings(),
+              duration: exportSettings.minutes * 60,
+              volumes: {
+                  bass: instrumentSettings.bass.volume,
+                  melody: instrumentSettings.melody.volume,
+                  accompaniment: instrumentSettings.accompaniment.volume,
+                  drums: drumSettings.volume,
+              },
+              textureVolumes: { sparkles: textureSettings.sparkles.volume, pads: textureSettings.pads.volume },
+              channels,
+              eq: eqSettings,
+              masterBus,
+              profile: performanceProfile,
+              onProgress: setExportProgress,
+          });
+          downloadBlob(encodeWav(buffer, exportSettings.bitDepth), `auragroove-${score}-${seed}.wav`);
+      } catch (e) {
+          const errorMessage = e instanceof Error ? e.message : String(e);
+          toast({ variant: "destructive", title: "Export Failed", description: errorMessage });
+          console.error(e);
+      } finally {
+          setExportProgress(null);
+      }
+  };
+
+  const handleExportMidi = () => {
+      const bars = getRecordedBars();
+      if (bars.length === 0) {
+          toast({ title: "Nothing to export yet", description: "Play for a while first; every bar you hear is recorded." });
+          return;
+      }
+      downloadBlob(encodeMidi(bars, `AuraGroove ${score} ${seed}`), `auragroove-${score}-${seed}.mid`);
+  };
+
+  const handleSaveSession = () => {
+      const log = getSessionLog();
+      if (!log) {
+          toast({ title: "No session recorded yet", description: "Every session is recorded from the moment you press Play." });
+          return;
+      }
+      downloadBlob(serializeSessionLog(log), `auragroove-session-${log.settings.score}-${log.settings.seed}.json`);
+  };
+
+  const handleReplayFile = async (file: File) => {
+      try {
+          const log = parseSessionLog(await file.text());
+          if (!isInitialized && !(await initialize())) return;
+          startReplay(log);
+      } catch (e) {
+          const errorMessage = e instanceof Error ? e.message : String(e);
+          toast({ variant: "destructive", title: "Replay Failed", description: errorMessage });
+      }
+  };
+
+  const handleShare = async () => {
+      const url = `${window.location.origin}/aura-groove#${encodeShareLink(getSceneState())}`;
+      try {
+          await navigator.clipboard.writeText(url);
+          toast({ title: "Link copied", description: "Anyone opening it hears this session with the same seed and mix." });
+      } catch {
+          toast({ title: "Copy this link to share the session", description: url });
+      }
+  };
+
+  const updateScenes = (update: (scenes: Scene[]) => Scene[]) => {
+      setScenes(prev => {
+          const next = update(prev);
+          saveScenes(next);
+          return next;
+      });
+  };
+
+  const handleSaveScene = (name: string) => {
+      const scene = createScene(name.trim() || `Scene ${scenes.length + 1}`, getSceneState());
+      updateScenes(prev => [...prev, scene]);
+  };
+
+  const handleLoadScene = (id: string) => {
+      const scene = scenes.find(s => s.id === id);
+      if (!scene) return;
+      morphSideRef.current = null; // The crossfader no longer describes what is playing.
+      applySceneState(scene.state);
+  };
+
+  const handleRenameScene = (id: string, name: string) => {
+      if (!name.trim()) return;
+      updateScenes(prev => prev.map(s => s.id === id ? { ...s, name: name.trim(), updatedAt: new Date().toISOString() } : s));
+  };
+
+  const handleDuplicateScene = (id: string) => {
+      updateScenes(prev => {
+          const scene = prev.find(s => s.id === id);
+          return scene ? [...prev, duplicateScene(scene, prev)] : prev;
+      });
+  };
+
+  const handleDeleteScene = (id: string) => {
+      updateScenes(prev => prev.filter(s => s.id !== id));
+  };
+
+  // Continuous values only; they follow the crossfader without waiting for the music.
+  const applyMorphFrame = (state: SceneState) => {
+      const current = getSceneState();
+      setBpm(state.settings.bpm);
+      setDensity(state.settings.density);
+      setMotifRecurrence(state.settings.motifRecurrence);
+      (Object.entries(state.volumes) as [keyof SceneState['volumes'], number][]).forEach(([part, volume]) => {
+          if (current.volumes[part] !== volume) handleVolumeChange(part, volume);
+      });
+      (Object.entries(state.channels) as [MixerPart, ChannelSettings][]).forEach(([part, channel]) => {
+          const { pan, reverbSend, delaySend } = current.channels[part];
+          if (channel.pan !== pan || channel.reverbSend !== reverbSend || channel.delaySend !== delaySend) {
+              handleChannelChange(part, { pan: channel.pan, reverbSend: channel.reverbSend, delaySend: channel.delaySend });
+          }
+      });
+      state.eq.forEach((gain, band) => {
+          if (current.eq[band] !== gain) handleEqChange(band, gain);
+      });
+      const { reverb, delay, compressor, limiter } = state.masterBus ?? current.masterBus;
+      const bus = current.masterBus;
+      if (reverb.mix !== bus.reverb.mix || delay.mix !== bus.delay.mix || delay.feedback !== bus.delay.feedback ||
+          compressor.threshold !== bus.compressor.threshold || compressor.ratio !== bus.compressor.ratio || limiter.ceiling !== bus.limiter.ceiling) {
+          handleMasterBusChange({
+              reverb: { ...bus.reverb, mix: reverb.mix },
+              delay: { ...bus.delay, mix: delay.mix, feedback: delay.feedback },
+              compressor: { ...bus.compressor, threshold: compressor.threshold, ratio: compressor.ratio },
+              limiter: { ...bus.limiter, ceiling: limiter.ceiling },
+          });
+      }
+  };
+
+  const applyMorphSide = (from: Scene, to: Scene, position: number, side: MorphSide) => {
+      morphSideRef.current = side;
+      const state = morphSceneState(from.state, to.state, position, side);
+      // Straight to the engine, so the phrase that is about to be composed already has it.
+      updateSettings(state.settings);
+      applySceneState(state);
+  };
+
+  const getMorphScenes = (): [Scene, Scene] | null => {
+      const from = scenes.find(s => s.id === morphRef.current.fromId);
+      const to = scenes.find(s => s.id === morphRef.current.toId);
+      return from && to ? [from, to] : null;
+  };
+
+  // Discrete settings change hands at the start of a phrase, once the crossfader has crossed the middle.
+  applyMorphPositionRef.current = (position: number) => {
+      const pair = getMorphScenes();
+      if (!pair) return;
+      const side = morphSide(position);
+      if (morphSideRef.current === null) {
+          applyMorphSide(pair[0], pair[1], position, side);
+          return;
+      }
+      applyMorphFrame(morphSceneState(pair[0].state, pair[1].state, position, morphSideRef.current));
+      if (side !== morphSideRef.current && !morphSwitchPendingRef.current) {
+          morphSwitchPendingRef.current = true;
+          atNextPhrase(() => {
+              morphSwitchPendingRef.current = false;
+              switchMorphSideRef.current();
+          });
+      }
+  };
+
+  switchMorphSideRef.current = () => {
+      const pair = getMorphScenes();
+      const { position } = morphRef.current;
+      if (pair && morphSideRef.current !== null && morphSide(position) !== morphSideRef.current) {
+          applyMorphSide(pair[0], pair[1], position, morphSide(position));
+      }
+  };
+
+  useEffect(() => {
+    if (!morph.isRunning) return;
+    const intervalId = setInterval(() => {
+        const { position, seconds } = morphRef.current;
+        const next = Math.max(0, Math.min(1, position + morphDirectionRef.current * MORPH_STEP_MS / 1000 / seconds));
+        const isRunning = next > 0 && next < 1;
+        morphRef.current = { ...morphRef.current, position: next, isRunning };
+        setMorph(morphRef.current);
+        applyMorphPositionRef.current(next);
+    }, MORPH_STEP_MS);
+    return () => clearInterval(intervalId);
+  }, [morph.isRunning]);
+
+  const handleMorphChange = (changes: Partial<Pick<SceneMorph, 'fromId' | 'toId' | 'seconds'>>) => {
+      const pairChanged = (changes.fromId !== undefined && changes.fromId !== morph.fromId) ||
+          (changes.toId !== undefined && changes.toId !== morph.toId);
+      if (pairChanged) morphSideRef.current = null;
+      setMorph(prev => ({ ...prev, ...changes, ...(pairChanged ? { position: 0, isRunning: false } : {}) }));
+  };
+
+  const handleMorphPositionChange = (position: number) => {
+      morphRef.current = { ...morphRef.current, position, isRunning: false };
+      setMorph(morphRef.current);
+      applyMorphPositionRef.current(position);
+  };
+
+  // Sweeps to whichever end the crossfader is further from.
+  const handleToggleMorph = () => {
+      if (morph.isRunning) {
+          setMorph(prev => ({ ...prev, isRunning: false }));
+          return;
+      }
+      if (!getMorphScenes()) return;
+      morphDirectionRef.current = morph.position < 0.5 ? 1 : -1;
+      setMorph(prev => ({ ...prev, isRunning: true }));
+  };
+
   const handleTimerDurationChange = (minutes: number) => {
       setTimerSettings(prev => ({...prev, duration: minutes * 60, timeLeft: minutes * 60 }));
   };
@@ -256,6 +695,8 @@ export const useAuraGroove = () => {
   return {
     isInitializing,
     isPlaying,
+    isReplaying,
+    section,
     loadingText: isInitializing ? 'Initializing...' : (isInitialized ? 'Ready' : 'Click to initialize audio'),
     handleTogglePlay,
     drumSettings,
@@ -268,18 +709,63 @@ export const useAuraGroove = () => {
     handleTextureEnabledChange,
     bpm,
     handleBpmChange: setBpm,
+    tempoRampBars,
+    handleTempoRampBarsChange: setTempoRampBars,
     score,
     handleScoreChange: setScore,
     density,
     setDensity,
+    motifRecurrence,
+    setMotifRecurrence,
+    evolution,
+    setEvolution,
+    generation: genome?.generation ?? null,
+    isLiked: genome !== null && likedGeneration === genome.generation,
+    handleLike,
+    keySettings,
+    handleKeySettingsChange: setKeySettings,
+    seed,
+    handleSeedChange,
+    handleNewSeed,
     handleGoHome,
     handleExit,
     isEqModalOpen,
     setIsEqModalOpen,
     eqSettings,
     handleEqChange,
+    channels,
+    handleChannelChange,
+    mutes,
+    solos,
+    handleToggleMute,
+    handleToggleSolo,
+    getLevels,
+    masterBus,
+    handleMasterBusChange,
+    performanceMode,
+    performanceProfile,
+    handlePerformanceModeChange,
+    getPerformance,
     timerSettings,
     handleTimerDurationChange,
     handleToggleTimer,
+    exportSettings,
+    handleExportSettingsChange: setExportSettings,
+    exportProgress,
+    handleExport,
+    handleExportMidi,
+    handleSaveSession,
+    handleReplayFile,
+    handleShare,
+    scenes,
+    handleSaveScene,
+    handleLoadScene,
+    handleRenameScene,
+    handleDuplicateScene,
+    handleDeleteScene,
+    morph,
+    handleMorphChange,
+    handleMorphPositionChange,
+    handleToggleMorph,
   };
 };
@@ -3,13 +3,13 @@ import type { Note, MelodyInstrument } from "@/types/music";
 import { getPresetParams } from "./presets";
 
 export class AccompanimentSynthManager {
-    private audioContext: AudioContext;
+    private audioContext: BaseAudioContext;
     private workletNode: AudioWorkletNode | null = null;
     private gainNode: GainNode;
     public isInitialized = false;
-    private scheduledTimeouts = new Set<NodeJS.Timeout>();
+    private chordCounter = 0;
 
-    constructor(audioContext: AudioContext, destination: AudioNode) {
+    constructor(audioContext: BaseAudioContext, destination: AudioNode) {
         this.audioContext = audioContext;
         this.gainNode = this.audioContext.createGain();
         this.gainNode.connect(destination);
@@ -32,39 +32,40 @@ export class AccompanimentSynthManager {
         this.gainNode.gain.setTargetAtTime(volume, this.audioContext.currentTime, 0.01);
     }
 
+    // Notes that share an onset form one chord. The chord processor holds a single chord at a
+    // time, so each chord takes over from the previous one and the last is released at its end.
+    // Everything is posted ahead; the worklet plays it on the frame it is due.
     public schedule(notes: Note[], time: number) {
         if (!this.workletNode || !this.isInitialized) {
             console.warn('[AccompanimentManager] Tried to schedule before initialized.');
             return;
         }
+        if (notes.length === 0) return;
 
-        const chordNotes = notes.map(n => ({ midi: n.midi, duration: n.duration, velocity: n.velocity ?? 0.6 }));
-        const maxDuration = Math.max(...notes.map(n => n.duration));
-
-        if (chordNotes.length === 0) return;
-        
-        // Schedule Note On for the chord
-        const noteOnTime = time;
-        this.workletNode.port.postMessage({
-            type: 'playChord',
-            notes: chordNotes,
-            stagger: 0.05,
-            when: noteOnTime
+        const chords = new Map<number, Note[]>();
+        notes.forEach(note => {
+            const onset = Math.round(note.time * 1000) / 1000;
+            chords.set(onset, [...(chords.get(onset) ?? []), note]);
         });
 
-        // Schedule Note Off for the chord
-        const noteOffTime = noteOnTime + maxDuration;
-        const delayUntilOff = (noteOffTime - this.audioContext.currentTime) * 1000;
+        let lastChord = 0;
+        [...chords.entries()].sort(([a], [b]) => a - b).forEach(([onset, chordNotes]) => {
+            const chordId = ++this.chordCounter;
+            lastChord = chordId;
+            const velocity = chordNotes.reduce((sum, n) => sum + (n.velocity ?? 0.6), 0) / chordNotes.length;
+            this.workletNode?.port.postMessage({
+                type: 'playChord',
+                notes: chordNotes.map(n => ({ midi: n.midi, duration: n.duration, velocity: n.velocity ?? 0.6 })),
+                velocity,
+                stagger: 0.05,
+                when: time + onset,
+                id: chordId,
+            });
+        });
 
-        if (delayUntilOff > 0) {
-            const timeoutId = setTimeout(() => {
-                if (this.workletNode) {
-                    this.workletNode.port.postMessage({ type: 'noteOff' });
-                }
-                this.scheduledTimeouts.delete(timeoutId);
-            }, delayUntilOff);
-            this.scheduledTimeouts.add(timeoutId);
-        }
+        // A chord from the next bar may already have taken over; the id releases only our own.
+        const noteOffTime = time + Math.max(...notes.map(n => n.time + n.duration));
+        this.workletNode.port.postMessage({ type: 'noteOff', when: noteOffTime, id: lastChord });
     }
 
 
@@ -85,15 +86,17 @@ export class AccompanimentSynthManager {
         }
     }
 
+    public get workletNodes() {
+        return this.workletNode ? [this.workletNode] : [];
+    }
+
     public allNotesOff() {
         this.stop();
     }
 
     public stop() {
-        this.scheduledTimeouts.forEach(timeoutId => clearTimeout(timeoutId));
-        this.scheduledTimeouts.clear();
         if (this.workletNode) {
-            this.workletNode.port.postMessage({ type: 'noteOff' });
+            this.workletNode.port.postMessage({ type: 'allNotesOff' });
         }
     }
 
@@ -5,12 +5,25 @@
  * This worker acts as a real-time composer, generating music bar by bar based on settings from the UI.
  * Its goal is to create a continuously evolving piece of music where complexity is controlled by a 'density' parameter.
  * It is completely passive and only composes the next bar when commanded via a 'tick'.
+ * The main thread owns the clock: each 'tick' carries the bar's absolute start time on the
+ * AudioContext timeline, and every message produced for that bar is stamped with it.
+ * Each style (ScoreName) has its own composer in ./composers; the scheduler looks it up by name.
+ * Above the composers, a song form plans sections (intro, development, climax, breakdown,
+ * outro) that shape density, parts, drums and pads, and are announced to the UI as they begin.
+ * With evolution on, the session's MusicalGenome (./composers/genome) feeds mode, chord roots,
+ * rhythm cells, density and the melodic theme, and mutates a little every few bars.
+ * Settings never restart the piece: they are queued and applied at the next bar (a style change
+ * waits for the next phrase), so the bar counter and everything derived from it keep running.
  */
-import type { WorkerSettings, Score, Note, DrumsScore, ScoreName } from '@/types/music';
-
-// --- Musical Constants ---
-const KEY_ROOT_MIDI = 40; // E2
-const SCALE_INTERVALS = [0, 2, 3, 5, 7, 8, 10]; // E Natural Minor
+import type { WorkerSettings, Score, ScoreName, MusicalGenome } from '@/types/music';
+import {
+    getComposer, HarmonyEngine, MotifMemory, SongForm, EvolutionEngine, PHRASE_BARS,
+    sectionDensity, sectionDrumPattern, genomeHarmony, genomeDensity, applyBassRhythm, applyDrumRhythm,
+    type ComposerContext,
+} from './composers';
+import { SCALES, getRootMidi } from './scales';
+import { createRng, type Rng } from './random';
+import { SPARKLE_VARIANTS } from './sparkle-player';
 
 const PADS_BY_STYLE: Record<ScoreName, string | null> = {
     dreamtales: 'livecircle.mp3',
@@ -31,45 +44,10 @@ const SPARKLE_SAMPLES = [
     '/assets/music/droplets/ocean.mp3',
 ];
 
-const PERCUSSION_SOUNDS = [
-    'C2', 'C#2', 'D2', 'D#2', 'E2', 'F2', 'F#2', 'G2', 
-    'G#2', 'A2', 'A#2', 'B2', 'C3', 'C#3', 'D3' 
-];
-
-const DRUM_FILL_PATTERNS: DrumsScore[] = [
-    // Fill 1: Simple tom roll
-    [
-        { note: 'A4', time: 0, velocity: 0.7 },
-        { note: 'A4', time: 0.25, velocity: 0.75 },
-        { note: 'G4', time: 0.5, velocity: 0.8 },
-        { note: 'G4', time: 0.75, velocity: 0.85 },
-    ],
-    // Fill 2: Snare build-up
-    [
-        { note: 'D4', time: 0, velocity: 0.5 },
-        { note: 'D4', time: 0.125, velocity: 0.6 },
-        { note: 'D4', time: 0.25, velocity: 0.7 },
-        { note: 'D4', time: 0.375, velocity: 0.8 },
-        { note: 'D4', time: 0.5, velocity: 0.9 },
-        { note: 'D4', time: 0.625, velocity: 1.0 },
-        { note: 'D4', time: 0.75, velocity: 1.0 },
-        { note: 'G4', time: 0.875, velocity: 0.9 },
-    ],
-    // Fill 3: Syncopated kick/snare
-    [
-        { note: 'C4', time: 0, velocity: 0.9 },
-        { note: 'C4', time: 0.375, velocity: 0.7 },
-        { note: 'D4', time: 0.5, velocity: 0.8 },
-        { note: 'A4', time: 0.75, velocity: 0.6 },
-        { note: 'G4', time: 0.875, velocity: 0.7 },
-    ]
-];
-
-
 // --- "Sparkle" (In-krap-le-ni-ye) Logic ---
 let lastSparkleTime = -Infinity;
 
-function shouldAddSparkle(currentTime: number, density: number): boolean {
+function shouldAddSparkle(currentTime: number, density: number, rng: Rng): boolean {
     const timeSinceLast = currentTime - lastSparkleTime;
     const minTime = 30; // Reduced time for more frequent sparkles
     const maxTime = 90;
@@ -78,205 +56,43 @@ function shouldAddSparkle(currentTime: number, density: number): boolean {
     if (density > 0.6) return false; // Only when less dense
 
     const chance = ((timeSinceLast - minTime) / (maxTime - minTime)) * (1 - density);
-    return Math.random() < chance;
+    return rng.chance(chance);
 }
 
-// --- Note Generation Helpers ---
-const getNoteFromDegree = (degree: number, scale: number[], root: number, octave: number) => {
-    const scaleLength = scale.length;
-    const noteInScale = scale[((degree % scaleLength) + scaleLength) % scaleLength];
-    const octaveOffset = Math.floor(degree / scaleLength);
-    return root + (octave + octaveOffset) * 12 + noteInScale;
+// --- Tempo ---
+type TempoRamp = {
+    from: number;
+    to: number;
+    startBar: number;
+    bars: number;
 };
 
-// --- Main Composition Engines ---
-
-const MulteityComposer = {
-    generateBass(barIndex: number, density: number): Note[] {
-        const notes: Note[] = [];
-        const beatDuration = Scheduler.barDuration / 4;
-        const step = beatDuration / 4; // 16th notes
-        const rootMidi = KEY_ROOT_MIDI;
-        const progression = [0, 3, 5, 2];
-        const chordRootDegree = progression[Math.floor(barIndex / 2) % progression.length];
-
-        for (let i = 0; i < 16; i++) {
-            if (Math.random() < density * 0.8) {
-                const octave = (i % 8 < 4) ? 0 : 1; // E2 to E3 range
-                const degree = chordRootDegree + (i % 4);
-                const midi = getNoteFromDegree(degree, SCALE_INTERVALS, rootMidi, octave);
-                notes.push({ midi, time: i * step, duration: step, velocity: 0.6 + Math.random() * 0.2 });
-            }
-        }
-        return notes;
-    },
-    generateAccompaniment(barIndex: number, density: number): Note[] {
-        const notes: Note[] = [];
-        const beatDuration = Scheduler.barDuration / 4;
-        const step = beatDuration / 4; // 16th notes
-        const rootMidi = KEY_ROOT_MIDI;
-        const progression = [0, 3, 5, 2];
-        const chordRootDegree = progression[Math.floor(barIndex / 2) % progression.length];
-        
-        const pattern = [0, 2, 4, 2]; // Arpeggio pattern over chord tones
-        for (let i = 0; i < 16; i++) {
-             if (Math.random() < density * 0.9) {
-                const octave = 2; // E4 to E5 range
-                const degree = chordRootDegree + pattern[i % pattern.length];
-                const midi = getNoteFromDegree(degree, SCALE_INTERVALS, rootMidi, octave);
-                 if (midi > 40 && midi < 80) { // Keep notes in a reasonable range
-                    notes.push({ midi, time: i * step, duration: step * 1.5, velocity: 0.4 + Math.random() * 0.2 });
-                 }
-            }
-        }
-        return notes;
-    },
-    generateMelody(barIndex: number, density: number): Note[] {
-        const notes: Note[] = [];
-        if (Math.random() > density * 0.8) return notes;
-
-        const rootMidi = KEY_ROOT_MIDI;
-        const numNotes = Math.floor(density * 12) + 4;
-        const step = Scheduler.barDuration / numNotes;
-        let lastDegree = (barIndex * 3) % SCALE_INTERVALS.length + 14; // Start higher
-
-        for (let i = 0; i < numNotes; i++) {
-             const useChromatic = Math.random() < (density * 0.1);
-             const interval = useChromatic ? (Math.random() < 0.5 ? 1 : -1) : (Math.floor(Math.random() * 3) - 1) * 2;
-             lastDegree += interval;
-             
-             const octave = Math.random() < 0.3 ? 3 : 2; 
-             const midi = getNoteFromDegree(lastDegree, SCALE_INTERVALS, rootMidi, octave);
-             if (midi > 52 && midi < 88) { // Keep melody in a reasonable range
-                notes.push({ midi, time: i * step, duration: step * (1.5 + Math.random()), velocity: 0.5 + density * 0.3 });
-             }
-        }
-        return notes;
-    }
-}
-
-
-const Composer = {
-    generateBass(barIndex: number, density: number): Note[] {
-        const beatDuration = Scheduler.barDuration / 4;
-        let notes: Note[] = [];
-        
-        const riffPattern = [40, 40, 43, 43]; // E2, E2, G2, G2
-        notes.push({ midi: riffPattern[barIndex % 4], time: 0, duration: beatDuration * 2, velocity: 0.7 });
-
-        if (density > 0.4) {
-            notes.push({ midi: riffPattern[barIndex % 4] + 12, time: beatDuration * 2, duration: beatDuration, velocity: 0.5 });
-        }
-        if (density > 0.7) {
-            const arpNotes = [40, 43, 47]; // E2, G2, B2
-            for(let i=0; i<3; i++) {
-                notes.push({ midi: arpNotes[i], time: beatDuration * 3 + i * (beatDuration/3), duration: beatDuration/3, velocity: 0.6});
-            }
-        }
-       
-        return notes;
-    },
-
-    generateMelody(barIndex: number, density: number): Note[] {
-        const notes: Note[] = [];
-        if (Math.random() > density) return notes; // Melody plays based on density
-
-        const notesInBar = density > 0.6 ? 8 : 4;
-        const step = Scheduler.barDuration / notesInBar;
-        let lastMidi = 60 + SCALE_INTERVALS[barIndex % SCALE_INTERVALS.length];
-
-        for (let i = 0; i < notesInBar; i++) {
-            if (Math.random() < density * 1.2) { // Chance to play a note
-                const direction = Math.random() < 0.5 ? 1 : -1;
-                const scaleIndex = (lastMidi - KEY_ROOT_MIDI + direction + SCALE_INTERVALS.length) % SCALE_INTERVALS.length;
-                const nextMidi = KEY_ROOT_MIDI + 24 + SCALE_INTERVALS[scaleIndex];
-                
-                if (nextMidi < 79) {
-                    lastMidi = nextMidi;
-                }
-                notes.push({ midi: lastMidi, time: i * step, duration: step * (1 + Math.random()), velocity: 0.5 * density });
-            }
-        }
-        return notes;
-    },
-    
-    generateAccompaniment(barIndex: number, density: number): Note[] {
-        const notes: Note[] = [];
-        if (density < 0.2) return notes;
-
-        const beatDuration = Scheduler.barDuration / 4;
-        const rootMidi = KEY_ROOT_MIDI + 12; // E3
-        const arpPattern = [rootMidi, rootMidi + 3, rootMidi + 7]; // E3, G3, B3
-
-        if (barIndex % 2 === 0 || density > 0.5) { 
-            for (let i = 0; i < 3; i++) {
-                if (Math.random() < density) {
-                    notes.push({ 
-                        midi: arpPattern[i], 
-                        time: i * (beatDuration / 3),
-                        duration: beatDuration * 2.5, 
-                        velocity: 0.4 * density 
-                    });
-                }
-            }
-        }
-        
-        return notes;
-    },
-
-    generateDrums(barIndex: number, density: number): DrumsScore {
-        if (!Scheduler.settings.drumSettings.enabled) return [];
-        
-        const step = Scheduler.barDuration / 16;
-        const drums: DrumsScore = [];
-        
-        // Basic kick and snare
-        if (Scheduler.settings.drumSettings.pattern === 'composer') {
-            for (let i = 0; i < 16; i++) {
-                if (i % 8 === 0) drums.push({ note: 'C4', time: i * step, velocity: 0.8 }); // Kick
-                if (i % 8 === 4) drums.push({ note: 'D4', time: i * step, velocity: 0.6 }); // Snare
-            }
-
-            // Add hi-hats based on density
-            if (density > 0.3) {
-                 for (let i = 0; i < 16; i++) {
-                     if (i % 4 === 2 && Math.random() < density) drums.push({ note: 'E4', time: i * step, velocity: 0.4 * density });
-                }
-            }
-             // Add crash cymbal based on density
-            if (density > 0.8 && barIndex % 4 === 0) {
-                drums.push({ note: 'G4', time: 0, velocity: 0.7 * density });
-            }
-        }
-
-        // Add percussive one-shots
-        if (density > 0.2) {
-            for (let i = 0; i < 16; i++) {
-                // Add on off-beats
-                if (i % 4 !== 0 && Math.random() < (density * 0.15)) {
-                    const randomPerc = PERCUSSION_SOUNDS[Math.floor(Math.random() * PERCUSSION_SOUNDS.length)];
-                    drums.push({ note: randomPerc, time: i * step, velocity: Math.random() * 0.3 + 0.2 });
-                }
-            }
-        }
-        
-        return drums;
-    }
+// BPM for a bar inside a ramp; the last bar of the ramp lands on the target.
+function bpmAt(ramp: TempoRamp, barIndex: number): number {
+    const progress = Math.min(1, (barIndex - ramp.startBar + 1) / ramp.bars);
+    return ramp.from + (ramp.to - ramp.from) * progress;
 }
 
-
 // --- Scheduler (The Conductor) ---
-let lastPadStyle: ScoreName | null = null;
+let lastPad: string | null = null;
 
 const Scheduler = {
-    loopId: null as any,
     isRunning: false,
     barCount: 0,
+    elapsed: 0, // Seconds of music composed so far; bars vary in length during a ramp.
+    currentBpm: 75,
+    tempoRamp: null as TempoRamp | null,
+    pendingSettings: {} as Partial<WorkerSettings>,
+    rng: createRng(0),
+    harmony: new HarmonyEngine(),
+    motifs: new MotifMemory(),
+    form: new SongForm(),
+    evolution: new EvolutionEngine(),
     
     settings: {
         bpm: 75,
         score: 'dreamtales', 
-        drumSettings: { pattern: 'none', enabled: false },
+        drumSettings: { pattern: 'none', kit: 'standard', enabled: false },
         instrumentSettings: { 
             bass: { name: "glideBass", volume: 0.5, technique: 'arpeggio' },
             melody: { name: "synth", volume: 0.5 },
@@ -287,92 +103,174 @@ const Scheduler = {
             pads: { enabled: true }
         },
         density: 0.5,
+        key: { root: 4, mode: 'aeolian' }, // E minor
+        seed: 0,
+        tempoRampBars: 0,
+        motifRecurrence: 0.5,
+        evolution: false,
     } as WorkerSettings,
 
     get barDuration() { 
-        return (60 / this.settings.bpm) * 4; // 4 beats per bar
+        return (60 / this.currentBpm) * 4; // 4 beats per bar
     },
 
     start() {
         if (this.isRunning) return;
         
+        this.applySettings(this.pendingSettings, true);
+        this.pendingSettings = {};
         this.isRunning = true;
         this.barCount = 0;
+        this.elapsed = 0;
+        this.currentBpm = this.settings.bpm;
+        this.tempoRamp = null;
+        this.rng = createRng(this.settings.seed); // Same seed, same session.
+        this.harmony.reset();
+        this.motifs.reset();
+        this.form.reset();
+        this.evolution.reset();
         lastSparkleTime = -Infinity;
-        lastPadStyle = null; // Reset on start
-        
-        const loop = () => {
-            if (!this.isRunning) return;
-            this.tick();
-            // Use setTimeout for the loop, allows for dynamic bar duration based on BPM
-            this.loopId = setTimeout(loop, this.barDuration * 1000);
-        };
-        
-        loop();
+        lastPad = null; // Reset on start
     },
 
     stop() {
         this.isRunning = false;
-        if (this.loopId) {
-            clearTimeout(this.loopId);
-            this.loopId = null;
-        }
     },
     
+    // Changes are only collected here; tick() applies them at the next bar boundary.
     updateSettings(newSettings: Partial<WorkerSettings>) {
-       this.settings = { ...this.settings, ...newSettings };
-       if (this.isRunning) {
-         clearTimeout(this.loopId);
-         this.loopId = null;
-         this.start();
+       this.pendingSettings = { ...this.pendingSettings, ...newSettings };
+       if (!this.isRunning) {
+           this.applySettings(this.pendingSettings, true);
+           this.pendingSettings = {};
        }
     },
 
-    tick() {
+    applySettings(changes: Partial<WorkerSettings>, immediate = false) {
+        const { score, bpm, ...rest } = changes;
+        const pending: Partial<WorkerSettings> = {};
+
+        // A new seed starts a new random stream from this bar on.
+        if (rest.seed !== undefined && rest.seed !== this.settings.seed) {
+            this.rng = createRng(rest.seed);
+        }
+        // A mode or instrument picked by hand overrides what evolution had chosen. The controls
+        // mirror each generation back here, so a value the genome already holds is no pick.
+        const genome = this.evolution.genome;
+        const modeChanged = rest.key !== undefined && rest.key.mode !== this.settings.key.mode &&
+            rest.key.mode !== genome?.mode;
+        const instrumentsChanged = rest.instrumentSettings !== undefined &&
+            (['bass', 'melody', 'accompaniment'] as const).some(part => {
+                const name = rest.instrumentSettings![part].name;
+                return name !== this.settings.instrumentSettings[part].name && name !== genome?.instruments[part];
+            });
+        this.evolution.adopt({
+            key: modeChanged ? rest.key : undefined,
+            instrumentSettings: instrumentsChanged ? rest.instrumentSettings : undefined,
+        });
+        this.settings = { ...this.settings, ...rest };
+
+        // A style change waits for the next phrase so the current one can finish.
+        if (score !== undefined && score !== this.settings.score) {
+            if (immediate || this.barCount % PHRASE_BARS === 0) this.settings.score = score;
+            else pending.score = score;
+        }
+
+        if (bpm !== undefined && bpm !== this.settings.bpm) {
+            this.settings.bpm = bpm;
+            const rampBars = Math.max(0, Math.round(this.settings.tempoRampBars));
+            if (immediate || rampBars === 0) {
+                this.currentBpm = bpm;
+                this.tempoRamp = null;
+            } else {
+                // Glide from wherever we are now, even from the middle of another ramp.
+                this.tempoRamp = { from: this.currentBpm, to: bpm, startBar: this.barCount, bars: rampBars };
+            }
+        }
+        return pending;
+    },
+
+    // Composes one bar that will start at `barStartTime` (seconds, AudioContext time).
+    tick(barStartTime: number) {
         if (!this.isRunning) return;
         
         console.time('workerTick');
 
-        const density = this.settings.density;
-        let bass, melody, accompaniment, drums;
-        
-        if (this.settings.score === 'multeity') {
-             bass = MulteityComposer.generateBass(this.barCount, density);
-             melody = MulteityComposer.generateMelody(this.barCount, density);
-             accompaniment = MulteityComposer.generateAccompaniment(this.barCount, density);
-        } else {
-             bass = Composer.generateBass(this.barCount, density);
-             melody = Composer.generateMelody(this.barCount, density);
-             accompaniment = Composer.generateAccompaniment(this.barCount, density);
+        this.pendingSettings = this.applySettings(this.pendingSettings);
+        if (this.tempoRamp) {
+            this.currentBpm = bpmAt(this.tempoRamp, this.barCount);
+            if (this.barCount - this.tempoRamp.startBar + 1 >= this.tempoRamp.bars) this.tempoRamp = null;
+        }
+
+        const composer = getComposer(this.settings.score);
+        const section = this.form.advance(this.barCount, composer.form, this.rng);
+        if (section.barInSection === 0) {
+            self.postMessage({ type: 'section', section: section.name, bars: section.bars, time: barStartTime });
+        }
+
+        let genome: MusicalGenome | null = null;
+        if (this.settings.evolution) {
+            if (this.evolution.advance(this.barCount, this.settings.score, composer, this.settings, this.rng)) {
+                self.postMessage({ type: 'genome', genome: this.evolution.genome, time: barStartTime });
+                this.motifs.setTheme(this.evolution.genome!.axiom);
+            }
+            genome = this.evolution.genome;
         }
 
-        drums = Composer.generateDrums(this.barCount, density);
+        let density = sectionDensity(this.settings.density, section);
+        if (genome) density = Math.min(1, density * genomeDensity(genome, this.barCount));
+        const drumPattern = sectionDrumPattern(this.settings.drumSettings.pattern, section);
+        const scale = SCALES[genome?.mode ?? this.settings.key.mode] ?? SCALES.aeolian;
+        const rootMidi = getRootMidi(this.settings.key.root);
+        const ctx: ComposerContext = {
+            barIndex: this.barCount,
+            density,
+            barDuration: this.barDuration,
+            scale,
+            rootMidi,
+            rng: this.rng,
+            // Planned before any part is written so bass, chords and melody all hear the same chord.
+            harmony: this.harmony.advance(this.barCount, genome ? genomeHarmony(composer.harmony, genome) : composer.harmony, scale, rootMidi, this.rng),
+            section,
+            settings: { ...this.settings, drumSettings: { ...this.settings.drumSettings, pattern: drumPattern, enabled: drumPattern !== 'none' } },
+        };
+
+        let bass = section.parts.includes('bass') ? composer.generateBass(ctx) : [];
+        const melody = section.parts.includes('melody') ? this.motifs.shape(composer.generateMelody(ctx), ctx) : [];
+        const accompaniment = section.parts.includes('accompaniment') ? composer.generateAccompaniment(ctx) : [];
+        let drums = ctx.settings.drumSettings.enabled ? composer.generateDrums(ctx) : [];
+        if (genome) {
+            bass = applyBassRhythm(bass, genome, this.barDuration, this.rng);
+            drums = applyDrumRhythm(drums, genome, this.barDuration);
+        }
         
         const score: Score = { bass, melody, accompaniment, drums };
 
-        self.postMessage({ type: 'score', score, time: this.barDuration });
-
-        const currentTime = this.barCount * this.barDuration;
+        const currentTime = this.elapsed;
         
         if (this.settings.textureSettings.sparkles.enabled) {
-            if (shouldAddSparkle(currentTime, density)) {
-                 self.postMessage({ type: 'sparkle', time: 0 });
+            if (shouldAddSparkle(currentTime, density, this.rng)) {
+                 self.postMessage({ type: 'sparkle', time: barStartTime, variant: this.rng.int(SPARKLE_VARIANTS) });
                  lastSparkleTime = currentTime;
             }
         }
         
         if (this.settings.textureSettings.pads.enabled) {
-            const currentStyle = this.settings.score;
-            if (currentStyle !== lastPadStyle) {
-                 const padName = PADS_BY_STYLE[currentStyle];
+            // Sections may bring their own pad; otherwise the style's pad plays.
+            const padName = section.pad ?? PADS_BY_STYLE[this.settings.score];
+            if (padName !== lastPad) {
                  if (padName) {
                     const delay = this.barCount === 0 ? 1 : 0;
-                    self.postMessage({ type: 'pad', padName: padName, time: delay });
+                    self.postMessage({ type: 'pad', padName: padName, time: barStartTime + delay });
                  }
-                lastPadStyle = currentStyle;
+                lastPad = padName;
             }
         }
 
+        // The score goes last: it tells the main thread that everything for this bar has arrived.
+        self.postMessage({ type: 'score', score, time: barStartTime, barIndex: this.barCount, barDuration: this.barDuration });
+
+        this.elapsed += this.barDuration;
         this.barCount++;
         console.timeEnd('workerTick');
     }
@@ -393,9 +291,17 @@ self.onmessage = async (event: MessageEvent) => {
                 Scheduler.stop();
                 break;
 
+            case 'tick':
+                Scheduler.tick(data.time);
+                break;
+
             case 'update_settings':
                 Scheduler.updateSettings(data);
                 break;
+
+            case 'like':
+                Scheduler.evolution.like();
+                break;
         }
     } catch (e) {
         self.postMessage({ type: 'error', error: e instanceof Error ? e.message : String(e) });
@@ -0,0 +1,206 @@
+/**
+ * The audio graph shared by live playback and offline rendering:
+ * instruments -> part gains -> mute -> panners -> master gain -> EQ -> master bus (./master-bus) -> destination.
+ * Each part also feeds the master bus reverb and delay through its own post-pan sends, and
+ * an AnalyserNode after its mute for the level meters (./level-meter).
+ *
+ * Both the AudioEngineProvider and the offline renderer build it from here, so an exported
+ * file goes through exactly the chain that is heard live.
+ */
+import type { ChannelSettings, InstrumentPart, MixerPart, Score, WorkerSettings } from '@/types/music';
+import { DrumMachine } from './drum-machine';
+import { AccompanimentSynthManager } from './accompaniment-synth-manager';
+import { BassSynthManager } from './bass-synth-manager';
+import { MelodySynthManager } from './melody-synth-manager';
+import { SparklePlayer } from './sparkle-player';
+import { PadPlayer } from './pad-player';
+import { MasterBus } from './master-bus';
+
+export const VOICE_BALANCE: Record<InstrumentPart, number> = {
+    bass: 1.0, melody: 0.5, accompaniment: 0.6, drums: 0.8,
+    effects: 0.6, sparkles: 0.35, pads: 0.9,
+};
+
+export const EQ_FREQUENCIES = [60, 125, 250, 500, 1000, 2000, 4000];
+
+const PARTS: InstrumentPart[] = ['bass', 'melody', 'accompaniment', 'effects', 'drums', 'sparkles', 'pads'];
+
+// A spread-out starting image: bass and drums in the middle, the voices to either side and the
+// textures drifting around, with more space on the upper parts than on the low end.
+export const DEFAULT_CHANNELS: Record<MixerPart, ChannelSettings> = {
+    bass: { pan: 0, reverbSend: 0.05, delaySend: 0, autoPan: false },
+    melody: { pan: -0.3, reverbSend: 0.35, delaySend: 0.2, autoPan: false },
+    accompaniment: { pan: 0.3, reverbSend: 0.3, delaySend: 0.1, autoPan: false },
+    drums: { pan: 0, reverbSend: 0.1, delaySend: 0, autoPan: false },
+    sparkles: { pan: 0, reverbSend: 0.5, delaySend: 0.3, autoPan: true },
+    pads: { pan: 0, reverbSend: 0.4, delaySend: 0, autoPan: true },
+};
+
+// Auto-pan LFO rates in Hz; all different, so the parts never drift in step.
+const AUTO_PAN_RATES: Record<InstrumentPart, number> = {
+    bass: 0.031, melody: 0.067, accompaniment: 0.053, effects: 0.061, drums: 0.043, sparkles: 0.11, pads: 0.023,
+};
+const AUTO_PAN_DEPTH = 0.6;
+const CENTRED: ChannelSettings = { pan: 0, reverbSend: 0, delaySend: 0, autoPan: false };
+
+const METER_FFT_SIZE = 2048;
+
+// Scheduler timing, the same live and offline. However short the bars, the scheduler keeps at
+// least MIN_LOOKAHEAD of composed music queued, on top of the performance profile's bars.
+export const START_DELAY = 0.1; // seconds from starting to the first bar
+export const MIN_LOOKAHEAD = 1; // seconds
+
+export type Channel = {
+    mute: GainNode; // Mute and solo, kept apart from the volume.
+    meter: AnalyserNode;
+    panner: StereoPannerNode;
+    autoPan: GainNode; // LFO depth
+    reverbSend: GainNode;
+    delaySend: GainNode;
+};
+
+export type Mixer = {
+    master: GainNode;
+    eq: BiquadFilterNode[];
+    bus: MasterBus;
+    parts: Record<InstrumentPart, GainNode>;
+    channels: Record<InstrumentPart, Channel>;
+    masterMeters: AnalyserNode[]; // One per output channel.
+    clipMeters: AnalyserNode[]; // Ahead of the limiter, which keeps the output itself from clipping.
+};
+
+export type Instruments = {
+    drums: DrumMachine;
+    bass: BassSynthManager;
+    melody: MelodySynthManager;
+    accompaniment: AccompanimentSynthManager;
+    sparkles: SparklePlayer;
+    pads: PadPlayer;
+};
+
+export function createMixer(context: BaseAudioContext, destination: AudioNode): Mixer {
+    const master = context.createGain();
+    const eq = EQ_FREQUENCIES.map((freq, i) => {
+        const filter = context.createBiquadFilter();
+        filter.type = (i === 0) ? 'lowshelf' : (i === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking');
+        filter.frequency.value = freq;
+        filter.Q.value = 1.0;
+        filter.gain.value = 0;
+        return filter;
+    });
+    eq.forEach((filter, i) => {
+        if (i < eq.length - 1) filter.connect(eq[i + 1]);
+    });
+    const bus = new MasterBus(context, destination);
+    eq[eq.length - 1].connect(bus.input);
+    master.connect(eq[0]);
+
+    const parts = {} as Record<InstrumentPart, GainNode>;
+    const channels = {} as Record<InstrumentPart, Channel>;
+    PARTS.forEach(part => {
+        parts[part] = context.createGain();
+        const channel: Channel = {
+            mute: context.createGain(),
+            meter: context.createAnalyser(),
+            panner: context.createStereoPanner(),
+            autoPan: context.createGain(),
+            reverbSend: context.createGain(),
+            delaySend: context.createGain(),
+        };
+        const lfo = context.createOscillator();
+        lfo.frequency.value = AUTO_PAN_RATES[part];
+        lfo.connect(channel.autoPan);
+        channel.autoPan.connect(channel.panner.pan);
+        lfo.start();
+
+        channel.meter.fftSize = METER_FFT_SIZE;
+        parts[part].connect(channel.mute);
+        channel.mute.connect(channel.meter);
+        channel.mute.connect(channel.panner);
+        channel.panner.connect(master);
+        channel.panner.connect(channel.reverbSend);
+        channel.reverbSend.connect(bus.reverbInput);
+        channel.panner.connect(channel.delaySend);
+        channel.delaySend.connect(bus.delayInput);
+        applyChannel(channel, part === 'effects' ? CENTRED : DEFAULT_CHANNELS[part], 0);
+        channels[part] = channel;
+    });
+
+    const stereoMeters = (source: AudioNode) => {
+        const splitter = context.createChannelSplitter(2);
+        source.connect(splitter);
+        return [0, 1].map(output => {
+            const meter = context.createAnalyser();
+            meter.fftSize = METER_FFT_SIZE;
+            splitter.connect(meter, output);
+            return meter;
+        });
+    };
+    const masterMeters = stereoMeters(bus.output);
+    const clipMeters = stereoMeters(bus.preLimiter);
+    return { master, eq, bus, parts, channels, masterMeters, clipMeters };
+}
+
+export function applyChannel(channel: Channel, settings: ChannelSettings, time: number) {
+    const set = (param: AudioParam, value: number) => param.setTargetAtTime(value, time, 0.05);
+    set(channel.panner.pan, Math.max(-1, Math.min(1, settings.pan)));
+    set(channel.reverbSend.gain, settings.reverbSend);
+    set(channel.delaySend.gain, settings.delaySend);
+    // The drift stays inside the stereo field around the pan position.
+    set(channel.autoPan.gain, settings.autoPan ? AUTO_PAN_DEPTH * (1 - Math.abs(settings.pan) / 2) : 0);
+}
+
+// With any part soloed, only soloed parts are heard; otherwise every part that is not muted.
+export function applyMuteSolo(mixer: Mixer, mutes: Partial<Record<MixerPart, boolean>>, solos: Partial<Record<MixerPart, boolean>>, time: number) {
+    const soloing = Object.values(solos).some(Boolean);
+    PARTS.forEach(part => {
+        const audible = part === 'effects'
+            ? !soloing
+            : (soloing ? !!solos[part] : !mutes[part]);
+        mixer.channels[part].mute.gain.setTargetAtTime(audible ? 1 : 0, time, 0.01);
+    });
+}
+
+// A part's gain for a volume slider value (0-1), balanced against the other parts.
+export const balancedVolume = (part: InstrumentPart, volume: number) => volume * (VOICE_BALANCE[part] ?? 1);
+
+export function createInstruments(context: BaseAudioContext, mixer: Mixer, melodyVoices: number): Instruments {
+    return {
+        drums: new DrumMachine(context, mixer.parts.drums),
+        bass: new BassSynthManager(context, mixer.parts.bass),
+        melody: new MelodySynthManager(context, mixer.parts.melody, melodyVoices),
+        accompaniment: new AccompanimentSynthManager(context, mixer.parts.accompaniment),
+        sparkles: new SparklePlayer(context, mixer.parts.sparkles),
+        pads: new PadPlayer(context, mixer.parts.pads),
+    };
+}
+
+export const initInstruments = (instruments: Instruments) =>
+    Promise.all(Object.values(instruments).map(instrument => instrument.init()));
+
+// The AudioWorkletNodes behind the synth parts, for the performance monitor.
+export const workletNodes = (instruments: Instruments) => [
+    ...instruments.bass.workletNodes,
+    ...instruments.melody.workletNodes,
+    ...instruments.accompaniment.workletNodes,
+];
+
+// The parts of a bar that are actually heard: parts switched off in `settings` are dropped.
+export function audibleScore(score: Score, settings: WorkerSettings | null): Score {
+    const playing = (name: string | undefined) => name !== undefined && name !== 'none';
+    return {
+        bass: playing(settings?.instrumentSettings.bass.name) ? score.bass ?? [] : [],
+        melody: playing(settings?.instrumentSettings.melody.name) ? score.melody ?? [] : [],
+        accompaniment: playing(settings?.instrumentSettings.accompaniment.name) ? score.accompaniment ?? [] : [],
+        drums: settings?.drumSettings.enabled ? score.drums ?? [] : [],
+    };
+}
+
+// Hands one composed bar to the instruments.
+export function scheduleScore(instruments: Instruments, score: Score, barStartTime: number, settings: WorkerSettings | null) {
+    const { bass = [], melody = [], accompaniment = [], drums = [] } = audibleScore(score, settings);
+    if (bass.length > 0) instruments.bass.schedule(bass, barStartTime);
+    if (melody.length > 0) instruments.melody.schedule(melody, barStartTime);
+    if (accompaniment.length > 0) instruments.accompaniment.schedule(accompaniment, barStartTime);
+    if (drums.length > 0) instruments.drums.schedule(drums, barStartTime);
+}
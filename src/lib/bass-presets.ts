@@ -16,7 +16,7 @@ export type BassPreset = {
   cutoff: number;       
   distortion?: number;  
   filterQ?: number;     
-  stagger?: number; // ms delay for layer 2
+  stagger?: number; // seconds before layer 2 follows layer 1
 
   // UI
   color: string;        
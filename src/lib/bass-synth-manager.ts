@@ -3,13 +3,13 @@ import type { Note, BassInstrument, BassTechnique } from "@/types/music";
 import { BASS_PRESETS } from "./bass-presets";
 
 export class BassSynthManager {
-    private audioContext: AudioContext;
+    private audioContext: BaseAudioContext;
     private workletNode: AudioWorkletNode | null = null;
     private outputNode: GainNode;
     public isInitialized = false;
-    private scheduledTimeouts = new Set<NodeJS.Timeout>();
+    private noteCounter = 0;
 
-    constructor(audioContext: AudioContext, destination: AudioNode) {
+    constructor(audioContext: BaseAudioContext, destination: AudioNode) {
         this.audioContext = audioContext;
         this.outputNode = this.audioContext.createGain();
         this.outputNode.connect(destination);
@@ -19,7 +19,8 @@ export class BassSynthManager {
         if (this.isInitialized) return;
         try {
             await this.audioContext.audioWorklet.addModule('/worklets/bass-processor.js');
-            this.workletNode = new AudioWorkletNode(this.audioContext, 'bass-processor');
+            // Stereo out: layered presets place their two layers apart.
+            this.workletNode = new AudioWorkletNode(this.audioContext, 'bass-processor', { outputChannelCount: [2] });
             this.workletNode.connect(this.outputNode);
             this.isInitialized = true;
             this.setPreset('glideBass'); 
@@ -50,33 +51,24 @@ export class BassSynthManager {
 
             const noteOnTime = startTime + note.time;
             const noteOffTime = noteOnTime + note.duration;
+            const id = ++this.noteCounter;
 
-            // Schedule Note On
+            // Both ends go to the worklet now; it plays them on the frame they are due.
+            // The id keeps this note-off from releasing a later note.
             this.workletNode!.port.postMessage({
                 type: 'noteOn',
                 frequency: freq,
                 velocity: note.velocity,
-                when: noteOnTime
+                when: noteOnTime,
+                id,
             });
-
-            // Schedule Note Off using main thread's setTimeout, ensuring it's sample-accurate with audioContext.currentTime
-            const delayUntilOff = (noteOffTime - this.audioContext.currentTime) * 1000;
-
-            if (delayUntilOff > 0) {
-                const timeoutId = setTimeout(() => {
-                    if (this.workletNode) {
-                        this.workletNode.port.postMessage({ type: 'noteOff' });
-                    }
-                    this.scheduledTimeouts.delete(timeoutId);
-                }, delayUntilOff);
-                this.scheduledTimeouts.add(timeoutId);
-            }
+            this.workletNode!.port.postMessage({ type: 'noteOff', when: noteOffTime, id });
         });
     }
 
     public setPreset(instrumentName: BassInstrument) {
         if (!this.workletNode || instrumentName === 'none') {
-             if(this.workletNode) this.workletNode.port.postMessage({ type: 'noteOff' });
+             if(this.workletNode) this.workletNode.port.postMessage({ type: 'allNotesOff' });
              return;
         };
         
@@ -95,18 +87,23 @@ export class BassSynthManager {
         this.workletNode.port.postMessage({ type: 'setMode', mode: technique });
     }
 
+    // The pulse technique gates notes in sixteenths of the tempo from `time` on.
+    public setTempo(barDuration: number, time: number) {
+        this.workletNode?.port.postMessage({ type: 'setTempo', beatDuration: barDuration / 4, when: time });
+    }
+
+    public get workletNodes() {
+        return this.workletNode ? [this.workletNode] : [];
+    }
+
     public allNotesOff() {
         this.stop();
     }
 
     public stop() {
-        // Clear all scheduled note-off events
-        this.scheduledTimeouts.forEach(timeoutId => clearTimeout(timeoutId));
-        this.scheduledTimeouts.clear();
-        
-        // Immediately stop any currently playing note in the worklet
+        // Drop everything the worklet still has queued and release the sounding note
         if (this.workletNode) {
-            this.workletNode.port.postMessage({ type: 'noteOff' });
+            this.workletNode.port.postMessage({ type: 'allNotesOff' });
         }
     }
 
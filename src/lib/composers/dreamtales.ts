@@ -0,0 +1,90 @@
+/**
+ * Dreamtales (Anchor): everything orbits a tonal anchor. The bass holds a pedal on the
+ * tonic, the chords step away from the home chord and always come back to it, and
+ * every melodic phrase starts and ends on an anchor tone (root or fifth).
+ */
+import type { Note, DrumsScore } from '@/types/music';
+import type { ComposerContext, StyleComposer } from './types';
+import { getNoteFromDegree } from './shared';
+import { composeDrums, type DrumStyle } from './drum-patterns';
+import { alignToHarmony, chordToneMidi } from './harmony';
+
+const PHRASE_LENGTH = 4; // bars
+// Chord roots (scale degrees): leave the anchor, return to it.
+const PROGRESSION = [0, 5, 0, 3, 0, 4, 0, 0];
+const ANCHOR_DEGREES = [0, 4]; // root and fifth
+// A half-time heartbeat, kept soft so it never crowds the anchor.
+const DRUMS: DrumStyle = { groove: 'halfTime', climax: 'downtempo', level: 0.7, percussion: 0.1 };
+
+const chordRootFor = (barIndex: number) => PROGRESSION[barIndex % PROGRESSION.length];
+
+export const DreamtalesComposer: StyleComposer = {
+    // Soft colours: suspensions over the pedal rather than dense extensions.
+    harmony: { barsPerChord: 1, rootFor: chordRootFor, interchange: 0.15, suspensions: 0.35, extensions: 0.2 },
+    // No climax: a slow swell and a long, quiet breakdown.
+    form: [
+        { name: 'intro', bars: 8 }, { name: 'development', bars: 24 }, { name: 'breakdown', bars: 8 },
+        { name: 'development', bars: 16 }, { name: 'outro', bars: 8 },
+    ],
+
+    generateBass({ density, barDuration, scale, rootMidi, harmony }: ComposerContext): Note[] {
+        const beatDuration = barDuration / 4;
+        const notes: Note[] = [];
+        const anchor = getNoteFromDegree(0, scale, rootMidi, 0);
+
+        // The pedal: a whole-bar tonic, re-struck each bar.
+        notes.push({ midi: anchor, time: 0, duration: barDuration, velocity: 0.7 });
+
+        // At higher densities the bass briefly touches the chord root before returning home.
+        if (density > 0.5 && harmony.chord.root !== 0) {
+            const midi = chordToneMidi(harmony.chord, 0, rootMidi, 0);
+            notes.push({ midi, time: beatDuration * 2, duration: beatDuration, velocity: 0.5 });
+            notes.push({ midi: anchor + 12, time: beatDuration * 3, duration: beatDuration, velocity: 0.45 });
+        }
+        return notes;
+    },
+
+    generateMelody(ctx: ComposerContext): Note[] {
+        const { barIndex, density, barDuration, scale, rootMidi, rng } = ctx;
+        const notes: Note[] = [];
+        const positionInPhrase = barIndex % PHRASE_LENGTH;
+        const isPhraseStart = positionInPhrase === 0;
+        const isPhraseEnd = positionInPhrase === PHRASE_LENGTH - 1;
+
+        // Phrase boundaries always speak; the bars in between depend on density.
+        if (!isPhraseStart && !isPhraseEnd && rng.next() > density) return notes;
+
+        const notesInBar = density > 0.6 ? 6 : 4;
+        const step = barDuration / notesInBar;
+        const anchorDegree = 7 + ANCHOR_DEGREES[Math.floor(barIndex / PHRASE_LENGTH) % ANCHOR_DEGREES.length];
+        let degree = anchorDegree;
+
+        for (let i = 0; i < notesInBar; i++) {
+            const isLast = i === notesInBar - 1;
+            if (isPhraseEnd && isLast) {
+                degree = anchorDegree; // Land back on the anchor.
+            } else if (!(isPhraseStart && i === 0)) {
+                const move = rng.int(5) - 2; // -2..+2 scale steps
+                // Drift, but never stray more than a fifth from the anchor.
+                degree = Math.max(anchorDegree - 4, Math.min(anchorDegree + 4, degree + move));
+            }
+
+            if (i > 0 && !isLast && rng.next() > density * 1.2) continue;
+            const midi = getNoteFromDegree(degree, scale, rootMidi, 1);
+            notes.push({ midi, time: i * step, duration: step * (isLast ? 2 : 1.5), velocity: 0.35 + density * 0.3 });
+        }
+        return alignToHarmony(notes, ctx);
+    },
+
+    generateAccompaniment({ density, barDuration, harmony }: ComposerContext): Note[] {
+        if (density < 0.2) return [];
+
+        // A slow chord, rolled by the instrument and held for most of the bar.
+        const beatDuration = barDuration / 4;
+        return harmony.voicing.map(midi => ({ midi, time: 0, duration: beatDuration * 3.5, velocity: 0.4 * density + 0.1 }));
+    },
+
+    generateDrums(ctx: ComposerContext): DrumsScore {
+        return composeDrums(ctx, DRUMS);
+    },
+};
@@ -0,0 +1,160 @@
+/**
+ * The drum pattern library: grooves as 16-step grids per kit role, and the finishing that
+ * makes a grid sound played - fills at phrase ends, swing, and small random shifts in
+ * timing and velocity.
+ *
+ * Each style names the groove it plays (see DrumStyle); the 'ambient_beat' pattern, and the
+ * light sections of the song form with it, play the soft ambient groove instead.
+ *
+ * Grid symbols:
+ *   X - accent          x - hit           o - soft hit
+ *   ? - hit, played with a chance equal to the density
+ *   g - ghost note, quieter and rarer still      . - rest
+ */
+import type { DrumHit, DrumRole, DrumsScore } from '@/types/music';
+import type { ComposerContext } from './types';
+import { DRUM_FILL_PATTERNS, PHRASE_BARS, generatePercussion, usesFullKit } from './shared';
+
+export type DrumGrooveName = 'ambient' | 'halfTime' | 'brokenBeat' | 'dub' | 'downtempo' | 'minimalTechno';
+
+type DrumGroove = {
+    steps: Partial<Record<DrumRole, string>>;
+    swing: number; // 0 plays straight 16ths, 1 a full triplet feel
+    level: number; // scales every velocity
+};
+
+const DRUM_GROOVES: Record<DrumGrooveName, DrumGroove> = {
+    // Soft pulse for 'ambient_beat': a muted kick, a rim-like snare on 3 and scattered hats.
+    ambient: {
+        steps: {
+            kick: 'o.........?.....',
+            snare: '........o.....g.',
+            hat: '..?...?...?...?.',
+        },
+        swing: 0.2,
+        level: 0.6,
+    },
+    halfTime: {
+        steps: {
+            kick: 'x.........?.....',
+            snare: '......g.X.....g.',
+            hat: 'x.?.o.?.x.?.o.?.',
+            openHat: '..............?.',
+        },
+        swing: 0.2,
+        level: 1,
+    },
+    brokenBeat: {
+        steps: {
+            kick: 'x..x......x..?..',
+            snare: '....X..g.g..X..g',
+            hat: 'x.x?o.x?x.x?o.x?',
+        },
+        swing: 0.35,
+        level: 1,
+    },
+    // One drop: kick and rim together on 3, nothing on 1.
+    dub: {
+        steps: {
+            kick: '........X.......',
+            snare: '........x.....g.',
+            hat: 'o.?.o.?.o.?.o.?.',
+            openHat: '......?.........',
+        },
+        swing: 0.45,
+        level: 0.9,
+    },
+    downtempo: {
+        steps: {
+            kick: 'x.....?.?.x.....',
+            snare: '....X.......X..g',
+            hat: 'x.o.x.o.x.o.x.o?',
+        },
+        swing: 0.25,
+        level: 1,
+    },
+    minimalTechno: {
+        steps: {
+            kick: 'X...x...X...x...',
+            snare: '....o.......o...',
+            hat: 'x?.?x?.?x?.?x?.?',
+            openHat: '..o...o...o...o.',
+        },
+        swing: 0.05,
+        level: 0.9,
+    },
+};
+
+// How a style plays the full kit.
+export type DrumStyle = {
+    groove: DrumGrooveName;
+    climax?: DrumGrooveName; // Played through climaxes instead, when given.
+    level?: number;          // The style's own velocity scale.
+    percussion: number;      // Chance scale of the percussion one-shots (see generatePercussion).
+};
+
+const STEPS = 16;
+const VELOCITIES: Record<string, number> = { X: 0.9, x: 0.7, o: 0.45, '?': 0.55, g: 0.18 };
+const GHOST_CHANCE = 0.6; // times the density
+const FILL_CHANCE = 0.3;  // plus the section's energy times FILL_ENERGY
+const FILL_ENERGY = 0.5;
+const TIMING_JITTER = 0.006; // seconds either way
+const VELOCITY_JITTER = 0.1; // share of the velocity either way
+
+const grooveFor = (ctx: ComposerContext, style: DrumStyle): DrumGrooveName => {
+    if (!usesFullKit(ctx)) return 'ambient';
+    return ctx.section.name === 'climax' && style.climax ? style.climax : style.groove;
+};
+
+// The straight grid of a groove, for one bar.
+function playGroove(ctx: ComposerContext, name: DrumGrooveName, level = 1): DrumsScore {
+    const { density, barDuration, rng } = ctx;
+    const groove = DRUM_GROOVES[name];
+    const step = barDuration / STEPS;
+    const drums: DrumsScore = [];
+    (Object.entries(groove.steps) as [DrumRole, string][]).forEach(([role, grid]) => {
+        [...grid].forEach((symbol, i) => {
+            if (symbol === '.') return;
+            if (symbol === '?' && !rng.chance(density)) return;
+            if (symbol === 'g' && !rng.chance(density * GHOST_CHANCE)) return;
+            drums.push({ role, time: i * step, velocity: VELOCITIES[symbol] * groove.level * level });
+        });
+    });
+    return drums;
+}
+
+// On the last bar of a phrase the full kit may hand its second half over to a fill.
+function addFill(ctx: ComposerContext, drums: DrumsScore): DrumsScore {
+    const { barIndex, barDuration, rng, section } = ctx;
+    if (!usesFullKit(ctx) || barIndex % PHRASE_BARS !== PHRASE_BARS - 1) return drums;
+    if (!rng.chance(FILL_CHANCE + section.energy * FILL_ENERGY)) return drums;
+
+    const start = barDuration / 2;
+    const fill = rng.pick(DRUM_FILL_PATTERNS);
+    return [
+        ...drums.filter(hit => hit.time < start || hit.role === 'perc'),
+        ...fill.map(hit => ({ ...hit, time: start + hit.time * (barDuration - start) })),
+    ];
+}
+
+// Swings the off-beat 16ths and nudges every hit a little, so the grid does not sound quantized.
+function humanize(ctx: ComposerContext, drums: DrumsScore, swing: number): DrumsScore {
+    const { barDuration, rng } = ctx;
+    const step = barDuration / STEPS;
+    return drums.map((hit): DrumHit => {
+        const offBeat = Math.round(hit.time / step) % 2 === 1;
+        const time = hit.time + (offBeat ? swing * step / 3 : 0) + (rng.next() * 2 - 1) * TIMING_JITTER;
+        const velocity = (hit.velocity ?? 0.6) * (1 + (rng.next() * 2 - 1) * VELOCITY_JITTER);
+        return { ...hit, time: Math.min(barDuration - 0.001, Math.max(0, time)), velocity: Math.min(1, velocity) };
+    }).sort((a, b) => a.time - b.time);
+}
+
+// A style's drums for one bar: its groove (or the ambient one), percussion, a fill at the end
+// of a phrase, then swing and humanization. `shape` lets a style alter the grid first.
+export function composeDrums(ctx: ComposerContext, style: DrumStyle, shape?: (drums: DrumsScore) => DrumsScore): DrumsScore {
+    const name = grooveFor(ctx, style);
+    let drums = playGroove(ctx, name, style.level);
+    if (shape) drums = shape(drums);
+    drums.push(...generatePercussion(ctx, style.percussion));
+    return humanize(ctx, addFill(ctx, drums), DRUM_GROOVES[name].swing);
+}
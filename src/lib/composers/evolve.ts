@@ -0,0 +1,141 @@
+/**
+ * Evolve (L-Logic): every part reads its material from a Lindenmayer system.
+ * The string is rewritten one generation further every EVOLUTION_BARS bars, so the
+ * music grows more intricate over time while staying self-similar.
+ *
+ * Symbol meaning (turtle-style, over scale degrees):
+ *   A - play, step up        B - play, leap a third up
+ *   C - play, step down      D - rest / tie the previous note
+ */
+import type { Note, DrumsScore } from '@/types/music';
+import type { ComposerContext, StyleComposer } from './types';
+import { getNoteFromDegree, usesFullKit } from './shared';
+import { composeDrums, type DrumStyle } from './drum-patterns';
+import { alignToHarmony, chordToneMidi } from './harmony';
+
+const AXIOM = 'A';
+const RULES: Record<string, string> = { A: 'AB', B: 'AC', C: 'DA', D: 'B' };
+const MIN_GENERATION = 4;
+const MAX_GENERATION = 9;
+const EVOLUTION_BARS = 16;
+
+const MELODY_MOVES: Record<string, number> = { A: 1, B: 2, C: -1, D: 0 };
+// Chord root (scale degree) chosen by the symbol that governs the bar.
+const CHORD_ROOTS: Record<string, number> = { A: 0, B: 5, C: 3, D: 4 };
+const DRUMS: DrumStyle = { groove: 'dub', climax: 'brokenBeat', percussion: 0.15 };
+
+const expansions = new Map<number, string>();
+
+function expand(generation: number): string {
+    const cached = expansions.get(generation);
+    if (cached) return cached;
+
+    let current = AXIOM;
+    for (let i = 0; i < generation; i++) {
+        current = current.split('').map(symbol => RULES[symbol] ?? symbol).join('');
+    }
+    expansions.set(generation, current);
+    return current;
+}
+
+const generationFor = (barIndex: number) =>
+    Math.min(MAX_GENERATION, MIN_GENERATION + Math.floor(barIndex / EVOLUTION_BARS));
+
+// Reads `count` symbols for the given bar, wrapping around the current string.
+function symbolsFor(barIndex: number, count: number, offset = 0): string[] {
+    const lString = expand(generationFor(barIndex));
+    const start = (barIndex * count + offset) % lString.length;
+    return Array.from({ length: count }, (_, i) => lString[(start + i) % lString.length]);
+}
+
+const chordRootFor = (barIndex: number) => {
+    const lString = expand(generationFor(barIndex));
+    return CHORD_ROOTS[lString[barIndex % lString.length]];
+};
+
+// Which voices of the chord each L-symbol sounds.
+const VOICES_FOR_SYMBOL: Record<string, (voicing: number[]) => number[]> = {
+    A: voicing => voicing,
+    B: voicing => voicing.slice(1),
+    C: voicing => voicing.slice(0, -1),
+    D: voicing => [voicing[0], voicing[voicing.length - 1]],
+};
+
+export const EvolveComposer: StyleComposer = {
+    // The L-string picks the roots; sevenths and ninths thicken as it grows.
+    harmony: { barsPerChord: 1, rootFor: chordRootFor, interchange: 0.1, suspensions: 0.2, extensions: 0.4 },
+    form: [
+        { name: 'intro', bars: 8 }, { name: 'development', bars: 16 }, { name: 'climax', bars: 8 }, { name: 'breakdown', bars: 8 },
+        { name: 'development', bars: 16 }, { name: 'climax', bars: 8 }, { name: 'outro', bars: 8 },
+    ],
+
+    generateBass({ barIndex, density, barDuration, rootMidi, rng, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        const beatDuration = barDuration / 4;
+        const beats = symbolsFor(barIndex, 4, 7);
+
+        beats.forEach((symbol, i) => {
+            if (i > 0 && (symbol === 'D' || rng.next() > density)) return;
+            // The bass only uses root and fifth; B lifts it to the fifth.
+            const midi = chordToneMidi(harmony.chord, symbol === 'B' ? 2 : 0, rootMidi, 0);
+            notes.push({ midi, time: i * beatDuration, duration: beatDuration * (i === 0 ? 2 : 1), velocity: i === 0 ? 0.7 : 0.55 });
+        });
+        return notes;
+    },
+
+    generateMelody(ctx: ComposerContext): Note[] {
+        const { barIndex, density, barDuration, scale, rootMidi, rng, harmony } = ctx;
+        const notes: Note[] = [];
+        if (rng.next() > density + 0.2) return notes;
+
+        const notesInBar = density > 0.6 ? 8 : 4;
+        const step = barDuration / notesInBar;
+        let degree = 7 + harmony.chord.degree;
+
+        symbolsFor(barIndex, notesInBar).forEach((symbol, i) => {
+            if (symbol === 'D') {
+                // Tie: stretch the previous note instead of striking a new one.
+                const previous = notes[notes.length - 1];
+                if (previous) previous.duration += step;
+                return;
+            }
+            degree += MELODY_MOVES[symbol];
+            if (degree > 14) degree -= 7; // Fold back into a singable range.
+            if (degree < 3) degree += 7;
+            const midi = getNoteFromDegree(degree, scale, rootMidi, 1);
+            notes.push({ midi, time: i * step, duration: step * 1.2, velocity: 0.4 + density * 0.3 });
+        });
+        return alignToHarmony(notes, ctx);
+    },
+
+    generateAccompaniment({ barIndex, density, barDuration, rng, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        if (density < 0.2) return notes;
+
+        const beatDuration = barDuration / 4;
+        // Each L-symbol chooses which voices of the chord sound on that beat.
+        symbolsFor(barIndex, 4, 3).forEach((symbol, i) => {
+            if (i > 0 && rng.next() > density) return;
+            VOICES_FOR_SYMBOL[symbol](harmony.voicing).forEach(midi => {
+                notes.push({ midi, time: i * beatDuration, duration: beatDuration * 2, velocity: 0.3 + density * 0.2 });
+            });
+        });
+        return notes;
+    },
+
+    generateDrums(ctx: ComposerContext): DrumsScore {
+        const { barIndex, density, barDuration, rng } = ctx;
+        const step = barDuration / 16;
+
+        return composeDrums(ctx, DRUMS, drums => {
+            if (!usesFullKit(ctx)) return drums;
+            // The L-string adds kick pickups to the groove: every off-beat A may kick.
+            symbolsFor(barIndex, 16, 11).forEach((symbol, i) => {
+                if (symbol === 'A' && i % 4 !== 0 && rng.next() < density * 0.5) {
+                    drums.push({ role: 'kick', time: i * step, velocity: 0.5 });
+                }
+            });
+            return drums;
+        });
+    },
+};
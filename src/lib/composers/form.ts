@@ -0,0 +1,78 @@
+/**
+ * Song form: the layer above the composers that thinks in minutes rather than bars.
+ *
+ * A style's form is a list of sections (intro, development, climax, breakdown, outro).
+ * Each section shapes the bars inside it: how dense they are, which parts play, how much
+ * of the drum kit is used and which pad sits underneath. When the outro ends, the form
+ * is planned again with fresh section lengths.
+ */
+import type { DrumSettings, SectionName } from '@/types/music';
+import type { Rng } from '../random';
+import type { FormSection, SectionPart, SectionState } from './types';
+import { PHRASE_BARS } from './shared';
+
+type SectionTraits = {
+    energy: [number, number]; // At the first and the last bar of the section.
+    parts: SectionPart[];
+    drums: SectionState['drums'];
+    pad: string | null;
+};
+
+const SECTION_TRAITS: Record<SectionName, SectionTraits> = {
+    intro: { energy: [0.15, 0.45], parts: ['bass', 'accompaniment'], drums: 'light', pad: null },
+    development: { energy: [0.5, 0.75], parts: ['bass', 'melody', 'accompaniment'], drums: 'full', pad: null },
+    climax: { energy: [0.9, 1], parts: ['bass', 'melody', 'accompaniment'], drums: 'full', pad: null },
+    breakdown: { energy: [0.3, 0.2], parts: ['melody', 'accompaniment'], drums: 'none', pad: 'MelancholicPad.ogg' },
+    outro: { energy: [0.45, 0.05], parts: ['bass', 'accompaniment'], drums: 'light', pad: 'Sleep.ogg' },
+};
+
+// Scales the user's density by the section's energy (0-1).
+export const sectionDensity = (density: number, section: SectionState) =>
+    Math.max(0.05, Math.min(1, density * (0.3 + section.energy)));
+
+// A section can thin the kit out, but never brings back drums the user switched off.
+export function sectionDrumPattern(pattern: DrumSettings['pattern'], section: SectionState): DrumSettings['pattern'] {
+    if (pattern === 'none' || section.drums === 'none') return 'none';
+    return section.drums === 'light' ? 'ambient_beat' : pattern;
+}
+
+export class SongForm {
+    private plan: { name: SectionName; bars: number; startBar: number }[] = [];
+
+    reset() {
+        this.plan = [];
+    }
+
+    advance(barIndex: number, form: FormSection[], rng: Rng): SectionState {
+        let section = this.plan.find(s => barIndex >= s.startBar && barIndex < s.startBar + s.bars);
+        if (!section) {
+            this.plan = this.planFrom(barIndex, form, rng);
+            section = this.plan[0];
+        }
+
+        const traits = SECTION_TRAITS[section.name];
+        const barInSection = barIndex - section.startBar;
+        const progress = section.bars > 1 ? barInSection / (section.bars - 1) : 1;
+        const [from, to] = traits.energy;
+        return {
+            name: section.name,
+            bars: section.bars,
+            barInSection,
+            energy: from + (to - from) * progress,
+            parts: traits.parts,
+            drums: traits.drums,
+            pad: traits.pad,
+        };
+    }
+
+    // Lays the form out from `startBar`, each section a phrase longer or shorter than written.
+    private planFrom(startBar: number, form: FormSection[], rng: Rng) {
+        let bar = startBar;
+        return form.map(({ name, bars }) => {
+            const length = Math.max(PHRASE_BARS, bars + (rng.int(3) - 1) * PHRASE_BARS);
+            const section = { name, bars: length, startBar: bar };
+            bar += length;
+            return section;
+        });
+    }
+}
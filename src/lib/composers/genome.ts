@@ -0,0 +1,209 @@
+/**
+ * The Musical Genome and the Evolution Engine (see GENERATIVE_MUSIC_CONCEPT.md).
+ *
+ * A genome is created whenever a style starts: a Markov-chain progression (or the style's
+ * own roots), rhythm cells for bass and drums, a density curve, a melodic axiom and the
+ * instrument line-up. While playing, the engine mutates one gene every EVOLUTION_BARS,
+ * always within the style's frame: chords are only swapped for others of the same
+ * harmonic function and the mode only moves to a neighbouring one. Liked genomes are
+ * crossed back in, so evolution keeps drifting towards what the listener enjoyed.
+ */
+import type { AccompanimentInstrument, BassInstrument, MelodyInstrument, MusicalGenome, Note, ScaleMode, ScoreName, WorkerSettings } from '@/types/music';
+import type { Rng } from '../random';
+import type { HarmonyProfile, StyleComposer } from './types';
+import { FUNCTION_DEGREES, NEXT_FUNCTION, functionOf, type HarmonicFunction } from './harmony';
+
+type Gene = 'mode' | 'progression' | 'bassRhythm' | 'drumRhythm' | 'densityCurve' | 'axiom' | 'instruments';
+
+const EVOLUTION_BARS = 8;
+const DENSITY_CYCLE_BARS = 32;
+const STEPS = 16;
+const MAX_LIKED = 8;
+const LIKE_BIAS = 0.5; // Chance that an evolution step first crosses in a liked genome.
+
+// Repeated entries weight the choice; big changes (mode, instruments) stay rare.
+const GENES: Gene[] = [
+    'progression', 'progression', 'progression', 'bassRhythm', 'bassRhythm', 'drumRhythm', 'drumRhythm',
+    'densityCurve', 'densityCurve', 'axiom', 'axiom', 'mode', 'instruments',
+];
+
+// Diatonic modes from brightest to darkest; the mode gene only steps to a neighbour.
+const MODE_BRIGHTNESS: ScaleMode[] = ['lydian', 'ionian', 'mixolydian', 'dorian', 'aeolian', 'phrygian', 'locrian'];
+
+const BASS_CHOICES: BassInstrument[] = ['classicBass', 'glideBass', 'ambientDrone', 'resonantGliss', 'hypnoticDrone', 'livingRiff'];
+const MELODY_CHOICES: MelodyInstrument[] = ['synth', 'organ', 'mellotron', 'theremin'];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function markovProgression(length: number, rng: Rng): number[] {
+    const progression = [0];
+    let fn: HarmonicFunction = 'tonic';
+    for (let i = 1; i < length; i++) {
+        // The last chord leads back to the first.
+        fn = i === length - 1 ? 'dominant' : rng.pick(NEXT_FUNCTION[fn]);
+        progression.push(rng.pick(FUNCTION_DEGREES[fn]));
+    }
+    return progression;
+}
+
+const rhythmCell = (rng: Rng, onBeat: number) =>
+    Array.from({ length: STEPS }, (_, i) => (i % 4 === 0 ? onBeat : rng.next()));
+
+export function createGenome(style: ScoreName, composer: StyleComposer, settings: WorkerSettings, rng: Rng): MusicalGenome {
+    const length = rng.pick([4, 8]);
+    const { barsPerChord, rootFor } = composer.harmony;
+    const progression = rootFor
+        ? Array.from({ length }, (_, i) => rootFor(i * barsPerChord))
+        : markovProgression(length, rng);
+    const { bass, melody, accompaniment } = settings.instrumentSettings;
+
+    return {
+        style,
+        generation: 0,
+        mode: settings.key.mode,
+        progression,
+        bassRhythm: rhythmCell(rng, 1),
+        drumRhythm: rhythmCell(rng, 1),
+        densityCurve: Array.from({ length: 8 }, () => 0.7 + rng.next() * 0.5),
+        axiom: Array.from({ length: 3 + rng.int(3) }, () => rng.int(5)),
+        instruments: { bass: bass.name, melody: melody.name, accompaniment: accompaniment.name },
+    };
+}
+
+function mutate(genome: MusicalGenome, gene: Gene, rng: Rng): MusicalGenome {
+    switch (gene) {
+        case 'mode': {
+            const index = MODE_BRIGHTNESS.indexOf(genome.mode);
+            if (index < 0) return genome; // Pentatonic and other colours stay as chosen.
+            const next = clamp(index + (rng.chance(0.5) ? 1 : -1), 0, MODE_BRIGHTNESS.length - 1);
+            return { ...genome, mode: MODE_BRIGHTNESS[next] };
+        }
+        case 'progression': {
+            // Swap one chord for another with the same harmonic function, keeping the opening tonic.
+            const progression = [...genome.progression];
+            const slot = 1 + rng.int(progression.length - 1);
+            progression[slot] = rng.pick(FUNCTION_DEGREES[functionOf(progression[slot])]);
+            return { ...genome, progression };
+        }
+        case 'bassRhythm':
+        case 'drumRhythm': {
+            const cell = [...genome[gene]];
+            if (rng.chance(0.3)) {
+                // Shift the off-beat weights by one step, leaving the downbeats in place.
+                const offBeats = cell.filter((_, i) => i % 4 !== 0);
+                offBeats.unshift(offBeats.pop()!);
+                let next = 0;
+                cell.forEach((_, i) => { if (i % 4 !== 0) cell[i] = offBeats[next++]; });
+            } else {
+                const step = rng.int(STEPS);
+                if (step % 4 !== 0) cell[step] = clamp(cell[step] + (rng.next() - 0.5) * 0.5, 0, 1);
+            }
+            return { ...genome, [gene]: cell };
+        }
+        case 'densityCurve': {
+            const densityCurve = [...genome.densityCurve];
+            const point = rng.int(densityCurve.length);
+            densityCurve[point] = clamp(densityCurve[point] + (rng.next() - 0.5) * 0.3, 0.6, 1.2);
+            return { ...genome, densityCurve };
+        }
+        case 'axiom': {
+            const axiom = [...genome.axiom];
+            if (axiom.length < 5 && rng.chance(0.2)) axiom.push(axiom[axiom.length - 1] + rng.pick([-1, 1, 2]));
+            else if (axiom.length > 3 && rng.chance(0.2)) axiom.pop();
+            else axiom[rng.int(axiom.length)] += rng.chance(0.5) ? 1 : -1;
+            return { ...genome, axiom };
+        }
+        case 'instruments': {
+            // A part the user switched off stays off.
+            const instruments = { ...genome.instruments };
+            const part = rng.pick(['bass', 'melody', 'accompaniment'] as const);
+            if (instruments[part] === 'none') return genome;
+            if (part === 'bass') instruments.bass = rng.pick(BASS_CHOICES);
+            else instruments[part] = rng.pick(MELODY_CHOICES) as MelodyInstrument & AccompanimentInstrument;
+            return { ...genome, instruments };
+        }
+    }
+}
+
+// Gene by gene, half from each parent.
+function crossover(genome: MusicalGenome, other: MusicalGenome, rng: Rng): MusicalGenome {
+    const genes: Gene[] = ['mode', 'progression', 'bassRhythm', 'drumRhythm', 'densityCurve', 'axiom', 'instruments'];
+    const child: MusicalGenome = { ...genome };
+    genes.forEach(gene => {
+        if (rng.chance(0.5)) Object.assign(child, { [gene]: other[gene] });
+    });
+    return child;
+}
+
+// --- Expressing the genes ---
+
+// Chord roots come from the genome's progression instead of the style's own logic.
+export const genomeHarmony = (profile: HarmonyProfile, genome: MusicalGenome): HarmonyProfile => ({
+    ...profile,
+    rootFor: barIndex => genome.progression[Math.floor(barIndex / profile.barsPerChord) % genome.progression.length],
+});
+
+export function genomeDensity(genome: MusicalGenome, barIndex: number): number {
+    const curve = genome.densityCurve;
+    const position = (barIndex % DENSITY_CYCLE_BARS) / DENSITY_CYCLE_BARS * curve.length;
+    const i = Math.floor(position);
+    const next = curve[(i + 1) % curve.length];
+    return curve[i] + (next - curve[i]) * (position - i);
+}
+
+const stepOf = (time: number, barDuration: number) => Math.round(time / (barDuration / STEPS)) % STEPS;
+
+// Off-beat bass notes pass the rhythm cell's gate; every note takes its step's accent.
+export function applyBassRhythm(notes: Note[], genome: MusicalGenome, barDuration: number, rng: Rng): Note[] {
+    return notes.flatMap(note => {
+        const step = stepOf(note.time, barDuration);
+        const weight = genome.bassRhythm[step];
+        if (step % 4 !== 0 && !rng.chance(0.3 + weight * 0.7)) return [];
+        return [{ ...note, velocity: (note.velocity ?? 0.6) * (0.75 + 0.25 * weight) }];
+    });
+}
+
+export function applyDrumRhythm<T extends { time: number; velocity?: number }>(hits: T[], genome: MusicalGenome, barDuration: number): T[] {
+    return hits.map(hit => ({ ...hit, velocity: (hit.velocity ?? 0.6) * (0.7 + 0.3 * genome.drumRhythm[stepOf(hit.time, barDuration)]) }));
+}
+
+export class EvolutionEngine {
+    public genome: MusicalGenome | null = null;
+    private liked: MusicalGenome[] = [];
+
+    // Liked genomes outlive stop/start; the genome itself is created afresh.
+    reset() {
+        this.genome = null;
+    }
+
+    // Returns true when the genome changed in this bar.
+    advance(barIndex: number, style: ScoreName, composer: StyleComposer, settings: WorkerSettings, rng: Rng): boolean {
+        if (!this.genome || this.genome.style !== style) {
+            this.genome = createGenome(style, composer, settings, rng);
+            return true;
+        }
+        if (barIndex === 0 || barIndex % EVOLUTION_BARS !== 0) return false;
+
+        let parent = this.genome;
+        const liked = this.liked.filter(genome => genome.style === style);
+        if (liked.length > 0 && rng.chance(LIKE_BIAS)) parent = crossover(parent, rng.pick(liked), rng);
+        this.genome = { ...mutate(parent, rng.pick(GENES), rng), generation: this.genome.generation + 1 };
+        return true;
+    }
+
+    like() {
+        if (!this.genome) return;
+        this.liked.push(this.genome);
+        if (this.liked.length > MAX_LIKED) this.liked.shift();
+    }
+
+    // Choices the user makes by hand override the matching genes.
+    adopt(settings: Partial<WorkerSettings>) {
+        if (!this.genome) return;
+        if (settings.key) this.genome = { ...this.genome, mode: settings.key.mode };
+        if (settings.instrumentSettings) {
+            const { bass, melody, accompaniment } = settings.instrumentSettings;
+            this.genome = { ...this.genome, instruments: { bass: bass.name, melody: melody.name, accompaniment: accompaniment.name } };
+        }
+    }
+}
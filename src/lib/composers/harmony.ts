@@ -0,0 +1,225 @@
+/**
+ * Harmony: one chord per bar that every part agrees on.
+ *
+ * The engine plans chords (functional progressions or a style's own root sequence),
+ * colours them with suspensions, extensions and borrowed chords, and voices them so that
+ * each chord moves to the next with as little voice motion as possible.
+ */
+import type { Note } from '@/types/music';
+import type { Rng } from '../random';
+import { SCALES } from '../scales';
+import type { Chord, ChordQuality, ComposerContext, HarmonyProfile, HarmonyState } from './types';
+
+type ChordPlan = {
+    degree: number;
+    quality: ChordQuality;
+    borrowed: boolean;
+};
+
+export type HarmonicFunction = 'tonic' | 'subdominant' | 'dominant';
+
+// Scale-degree stacks for each quality, over the chord root.
+const QUALITY_DEGREES: Record<ChordQuality, number[]> = {
+    triad: [0, 2, 4],
+    sus2: [0, 1, 4],
+    sus4: [0, 3, 4],
+    seventh: [0, 2, 4, 6],
+    ninth: [0, 2, 4, 6, 8],
+};
+
+const QUALITY_SUFFIX: Record<ChordQuality, string> = {
+    triad: '', sus2: 'sus2', sus4: 'sus4', seventh: '7', ninth: '9',
+};
+
+// Repeated entries weight the choice.
+export const FUNCTION_DEGREES: Record<HarmonicFunction, number[]> = {
+    tonic: [0, 0, 5, 2],
+    subdominant: [3, 3, 1],
+    dominant: [4, 4, 6],
+};
+
+export const NEXT_FUNCTION: Record<HarmonicFunction, HarmonicFunction[]> = {
+    tonic: ['subdominant', 'subdominant', 'dominant', 'tonic'],
+    subdominant: ['dominant', 'dominant', 'tonic', 'subdominant'],
+    dominant: ['tonic', 'tonic', 'tonic', 'subdominant'],
+};
+
+const PHRASE_CHORDS = 4;
+const NUMERALS = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+
+// Accompaniment register and size, relative to the bass-register tonic.
+const VOICING_LOW = 9;
+const VOICING_HIGH = 33;
+const MAX_VOICES = 4; // chord-processor.js has four voices
+
+const degreeSemitones = (degree: number, scale: number[]) => {
+    const length = scale.length;
+    return scale[((degree % length) + length) % length] + Math.floor(degree / length) * 12;
+};
+
+export const functionOf = (degree: number): HarmonicFunction => {
+    const normalized = ((degree % 7) + 7) % 7;
+    if (FUNCTION_DEGREES.dominant.includes(normalized)) return 'dominant';
+    if (FUNCTION_DEGREES.subdominant.includes(normalized)) return 'subdominant';
+    return 'tonic';
+};
+
+// The parallel mode a chord is borrowed from: minor colours in major keys, the raised
+// dominant and the dorian IV in minor keys. Only heptatonic scales take part.
+function borrowedScaleFor(scale: number[], degree: number): number[] | null {
+    if (scale.length !== 7) return null;
+    if (scale[2] === 4) return SCALES.aeolian;
+    return ((degree % 7) + 7) % 7 === 4 ? SCALES.harmonicMinor : SCALES.dorian;
+}
+
+function symbolFor(root: number, intervals: number[], quality: ChordQuality): string {
+    const numeral = NUMERALS[root];
+    const minor = intervals.includes(3) && !intervals.includes(4);
+    const diminished = minor && intervals.includes(6) && !intervals.includes(7);
+    const name = minor ? numeral.toLowerCase() : numeral;
+    return `${name}${diminished ? '°' : ''}${QUALITY_SUFFIX[quality]}`;
+}
+
+const stackFor = (degree: number, quality: ChordQuality, scale: number[]) => {
+    const base = degreeSemitones(degree, scale);
+    return QUALITY_DEGREES[quality].map(offset => degreeSemitones(degree + offset, scale) - base);
+};
+
+function realize(plan: ChordPlan, scale: number[]): Chord {
+    const borrowedScale = plan.borrowed ? borrowedScaleFor(scale, plan.degree) : null;
+    const source = borrowedScale ?? scale;
+    const base = degreeSemitones(plan.degree, source);
+    let quality = plan.quality;
+    let intervals = stackFor(plan.degree, quality, source);
+    // A suspension needs a whole-tone second or a perfect fourth; anything else falls back to the triad.
+    if ((quality === 'sus2' && intervals[1] !== 2) || (quality === 'sus4' && intervals[1] !== 5)) {
+        quality = 'triad';
+        intervals = stackFor(plan.degree, quality, source);
+    }
+    const root = ((base % 12) + 12) % 12;
+    // Borrowing the same chord the key already has is not interchange.
+    const diatonicRoot = ((degreeSemitones(plan.degree, scale) % 12) + 12) % 12;
+    const diatonic = stackFor(plan.degree, quality, scale);
+    const borrowed = borrowedScale !== null && (root !== diatonicRoot || intervals.some((t, i) => t !== diatonic[i]));
+
+    return { degree: plan.degree, quality, root, intervals, borrowed, symbol: symbolFor(root, intervals, quality) };
+}
+
+function chooseQuality(profile: HarmonyProfile, degree: number, rng: Rng): ChordQuality {
+    if (rng.chance(profile.suspensions)) return rng.chance(0.5) ? 'sus2' : 'sus4';
+    // Dominants lean towards the seventh.
+    const extensionChance = functionOf(degree) === 'dominant' ? Math.min(1, profile.extensions * 1.5) : profile.extensions;
+    if (rng.chance(extensionChance)) return rng.chance(0.6) ? 'seventh' : 'ninth';
+    return 'triad';
+}
+
+// Sum of the distances from every note to the nearest note of the other chord, both ways,
+// so voicings of different sizes can still be compared.
+function voiceMotion(from: number[], to: number[]): number {
+    const nearest = (midi: number, chord: number[]) => Math.min(...chord.map(other => Math.abs(other - midi)));
+    return to.reduce((sum, midi) => sum + nearest(midi, from), 0) + from.reduce((sum, midi) => sum + nearest(midi, to), 0);
+}
+
+export function voiceLead(chord: Chord, rootMidi: number, previous: number[] | null): number[] {
+    let tones = chord.intervals;
+    if (tones.length > MAX_VOICES) tones = tones.filter((_, i) => i !== 2); // The fifth is the first to go.
+
+    const low = rootMidi + VOICING_LOW;
+    const high = rootMidi + VOICING_HIGH;
+    const center = (low + high) / 2;
+    let best: number[] | null = null;
+    let bestCost = Infinity;
+
+    for (let inversion = 0; inversion < tones.length; inversion++) {
+        const stacked = [...tones.slice(inversion), ...tones.slice(0, inversion).map(t => t + 12)].sort((a, b) => a - b);
+        for (let octave = -1; octave <= 3; octave++) {
+            const notes = stacked.map(t => rootMidi + chord.root + t + octave * 12);
+            if (notes[0] < low || notes[notes.length - 1] > high) continue;
+            const mean = notes.reduce((sum, midi) => sum + midi, 0) / notes.length;
+            // A small pull towards the middle of the register stops the voicing drifting away.
+            const cost = (previous ? voiceMotion(previous, notes) : 0) + Math.abs(mean - center) * 0.25;
+            if (cost < bestCost) {
+                best = notes;
+                bestCost = cost;
+            }
+        }
+    }
+    return best ?? tones.map(t => rootMidi + 12 + chord.root + t);
+}
+
+// MIDI note of the `index`-th chord tone; indices past the top wrap into the next octave.
+export function chordToneMidi(chord: Chord, index: number, rootMidi: number, octave: number): number {
+    const length = chord.intervals.length;
+    const wrapped = ((index % length) + length) % length;
+    const octaveOffset = Math.floor(index / length);
+    return rootMidi + chord.root + chord.intervals[wrapped] + (octave + octaveOffset) * 12;
+}
+
+// The chord tone nearest to `midi`, preferring the one below on a tie.
+export function snapToChord(midi: number, chord: Chord, rootMidi: number): number {
+    const pitchClasses = chord.intervals.map(t => (rootMidi + chord.root + t) % 12);
+    for (let distance = 0; distance < 12; distance++) {
+        if (pitchClasses.includes(((midi - distance) % 12 + 12) % 12)) return midi - distance;
+        if (pitchClasses.includes((midi + distance) % 12)) return midi + distance;
+    }
+    return midi;
+}
+
+// Melody notes that land on a beat are moved to the nearest chord tone; the notes in
+// between stay free to pass through the scale.
+export function alignToHarmony(notes: Note[], ctx: ComposerContext): Note[] {
+    const beatDuration = ctx.barDuration / 4;
+    return notes.map(note => {
+        const beats = note.time / beatDuration;
+        if (Math.abs(beats - Math.round(beats)) > 1e-6) return note;
+        return { ...note, midi: snapToChord(note.midi, ctx.harmony.chord, ctx.rootMidi) };
+    });
+}
+
+export class HarmonyEngine {
+    private current: ChordPlan | null = null;
+    private upcoming: ChordPlan | null = null;
+    private voicing: number[] | null = null;
+    private phraseFunction: HarmonicFunction = 'tonic';
+
+    reset() {
+        this.current = null;
+        this.upcoming = null;
+        this.voicing = null;
+        this.phraseFunction = 'tonic';
+    }
+
+    // Moves to `barIndex` (bars must arrive in order) and plans one bar ahead.
+    advance(barIndex: number, profile: HarmonyProfile, scale: number[], rootMidi: number, rng: Rng): HarmonyState {
+        this.current = this.upcoming ?? this.plan(barIndex, profile, rng, null);
+        this.upcoming = this.plan(barIndex + 1, profile, rng, this.current);
+
+        const chord = realize(this.current, scale);
+        this.voicing = voiceLead(chord, rootMidi, this.voicing);
+        return { chord, next: realize(this.upcoming, scale), voicing: this.voicing };
+    }
+
+    private plan(barIndex: number, profile: HarmonyProfile, rng: Rng, previous: ChordPlan | null): ChordPlan {
+        const barsPerChord = Math.max(1, profile.barsPerChord);
+        if (previous && barIndex % barsPerChord !== 0) return previous; // The chord is held.
+
+        const slot = Math.floor(barIndex / barsPerChord);
+        let degree: number;
+        if (profile.rootFor) {
+            degree = profile.rootFor(barIndex);
+        } else {
+            // Phrases open on the tonic and end on the dominant, which leads into the next one.
+            const position = slot % PHRASE_CHORDS;
+            if (position === 0) this.phraseFunction = 'tonic';
+            else if (position === PHRASE_CHORDS - 1) this.phraseFunction = 'dominant';
+            else this.phraseFunction = rng.pick(NEXT_FUNCTION[this.phraseFunction]);
+            degree = position === 0 ? 0 : rng.pick(FUNCTION_DEGREES[this.phraseFunction]);
+        }
+
+        return {
+            degree,
+            quality: chooseQuality(profile, degree, rng),
+            borrowed: rng.chance(profile.interchange),
+        };
+    }
+}
@@ -0,0 +1,24 @@
+import type { ScoreName } from '@/types/music';
+import type { StyleComposer } from './types';
+import { DreamtalesComposer } from './dreamtales';
+import { EvolveComposer } from './evolve';
+import { OmegaComposer } from './omega';
+import { JourneyComposer } from './journey';
+import { MulteityComposer } from './multeity';
+
+export type { StyleComposer, ComposerContext, Chord, HarmonyState } from './types';
+export { HarmonyEngine } from './harmony';
+export { MotifMemory } from './motif';
+export { SongForm, sectionDensity, sectionDrumPattern } from './form';
+export { EvolutionEngine, genomeHarmony, genomeDensity, applyBassRhythm, applyDrumRhythm } from './genome';
+export { PHRASE_BARS } from './shared';
+
+const COMPOSERS: Record<ScoreName, StyleComposer> = {
+    dreamtales: DreamtalesComposer,
+    evolve: EvolveComposer,
+    omega: OmegaComposer,
+    journey: JourneyComposer,
+    multeity: MulteityComposer,
+};
+
+export const getComposer = (score: ScoreName): StyleComposer => COMPOSERS[score] ?? COMPOSERS.dreamtales;
@@ -0,0 +1,86 @@
+/**
+ * Journey: a long arc instead of a loop. Its form travels from a sparse departure through
+ * two climaxes and back home, and every part follows the energy of the section it is in —
+ * the bass walks further, the melody climbs higher and the drums add layers.
+ */
+import type { Note, DrumsScore, DrumRole } from '@/types/music';
+import type { ComposerContext, StyleComposer } from './types';
+import { getNoteFromDegree, usesFullKit } from './shared';
+import { composeDrums, type DrumStyle } from './drum-patterns';
+import { alignToHarmony, chordToneMidi } from './harmony';
+
+const DRUMS: DrumStyle = { groove: 'downtempo', climax: 'brokenBeat', percussion: 0.15 };
+// The section energy above which each role of the groove plays.
+const LAYER_ENERGY: Record<DrumRole, number> = {
+    kick: 0.15, snare: 0.35, hat: 0.55, openHat: 0.55, crash: 0, tomLow: 0, tomMid: 0, tomHigh: 0, perc: 0,
+};
+
+export const JourneyComposer: StyleComposer = {
+    // Functional progressions, one chord every two bars, with borrowed chords for colour along the way.
+    harmony: { barsPerChord: 2, interchange: 0.25, suspensions: 0.15, extensions: 0.35 },
+    form: [
+        { name: 'intro', bars: 8 }, { name: 'development', bars: 16 }, { name: 'climax', bars: 16 }, { name: 'breakdown', bars: 8 },
+        { name: 'development', bars: 8 }, { name: 'climax', bars: 8 }, { name: 'outro', bars: 8 },
+    ],
+
+    generateBass({ density, barDuration, scale, rootMidi, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        const beatDuration = barDuration / 4;
+
+        notes.push({ midi: chordToneMidi(harmony.chord, 0, rootMidi, 0), time: 0, duration: beatDuration * 2, velocity: 0.7 });
+
+        // Walk towards the next chord as the journey gathers pace: the fifth, then a step into the next root.
+        if (density > 0.3) {
+            const next = harmony.next.degree;
+            const direction = next >= harmony.chord.degree ? 1 : -1;
+            const walk = [chordToneMidi(harmony.chord, 2, rootMidi, 0), getNoteFromDegree(next - direction, scale, rootMidi, 0)];
+            walk.forEach((midi, i) => {
+                notes.push({ midi, time: beatDuration * (2 + i), duration: beatDuration, velocity: 0.55 });
+            });
+        }
+        return notes;
+    },
+
+    generateMelody(ctx: ComposerContext): Note[] {
+        const { density, barDuration, scale, rootMidi, rng, harmony, section } = ctx;
+        const notes: Note[] = [];
+        if (rng.next() > density + 0.15) return notes;
+
+        const notesInBar = 2 + Math.round(density * 6);
+        const step = barDuration / notesInBar;
+        // The melody's register climbs with the section's energy.
+        const baseDegree = 7 + harmony.chord.degree + Math.round(section.energy * 5);
+        let degree = baseDegree;
+
+        for (let i = 0; i < notesInBar; i++) {
+            degree += rng.next() < 0.6 ? (rng.next() < 0.5 ? 1 : -1) : (rng.next() < 0.5 ? 2 : -2);
+            degree = Math.max(baseDegree - 3, Math.min(baseDegree + 4, degree));
+            const midi = getNoteFromDegree(degree, scale, rootMidi, 1);
+            notes.push({ midi, time: i * step, duration: step * 1.8, velocity: 0.35 + density * 0.35 });
+        }
+        return alignToHarmony(notes, ctx);
+    },
+
+    generateAccompaniment({ density, barDuration, harmony }: ComposerContext): Note[] {
+        if (density < 0.15) return [];
+
+        // The full voicing only opens up towards the peak; early on it is a three-note chord.
+        const voicing = density > 0.5 ? harmony.voicing : harmony.voicing.slice(0, 3);
+        return voicing.map(midi => ({ midi, time: 0, duration: barDuration * 0.95, velocity: 0.3 + density * 0.15 }));
+    },
+
+    generateDrums(ctx: ComposerContext): DrumsScore {
+        const { section } = ctx;
+        const energy = section.energy;
+        if (!usesFullKit(ctx)) return composeDrums(ctx, DRUMS);
+
+        // Layers enter one by one as the energy rises: kick, then snare, then hats, and a crash as each climax begins.
+        return composeDrums(ctx, DRUMS, drums => {
+            const layered = drums.filter(hit => energy > LAYER_ENERGY[hit.role]);
+            if (section.name === 'climax' && section.barInSection === 0) {
+                layered.push({ role: 'crash', time: 0, velocity: 0.6 });
+            }
+            return layered;
+        });
+    },
+};
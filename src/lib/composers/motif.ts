@@ -0,0 +1,168 @@
+/**
+ * Motif memory: gives melodies something to return to.
+ *
+ * Fresh melody bars are remembered as motifs in scale-degree space, relative to the chord
+ * they were written over. Later bars can bring one back - repeated, transposed, inverted,
+ * augmented or fragmented - over whatever chord is sounding then. Every phrase closes on
+ * a chord tone.
+ */
+import type { Note } from '@/types/music';
+import type { Rng } from '../random';
+import type { ComposerContext } from './types';
+import { getNoteFromDegree, PHRASE_BARS } from './shared';
+import { alignToHarmony, snapToChord } from './harmony';
+
+type MotifNote = {
+    step: number;       // Scale degrees above the motif's first note.
+    time: number;       // Fraction of a bar.
+    duration: number;   // Fraction of a bar.
+    velocity: number;
+};
+
+type Motif = {
+    start: number;      // First note, in scale degrees above the chord root.
+    notes: MotifNote[];
+};
+
+type Development = 'repeat' | 'transpose' | 'invert' | 'augment' | 'fragment';
+
+const MAX_MOTIFS = 8;
+const DEVELOPMENTS: Development[] = ['repeat', 'repeat', 'transpose', 'transpose', 'invert', 'augment', 'fragment'];
+// The melody register, relative to the bass-register tonic.
+const MELODY_LOW = 12;
+const MELODY_HIGH = 48;
+
+// Nearest scale degree to a MIDI note, counted from the tonic at `rootMidi`.
+function degreeOf(midi: number, scale: number[], rootMidi: number): number {
+    const relative = midi - rootMidi;
+    const octave = Math.floor(relative / 12);
+    const pitchClass = relative - octave * 12;
+    let best = 0;
+    scale.forEach((semitone, i) => {
+        if (Math.abs(semitone - pitchClass) < Math.abs(scale[best] - pitchClass)) best = i;
+    });
+    // Closer to the tonic above than to any degree in this octave.
+    if (12 - pitchClass < Math.abs(scale[best] - pitchClass)) return (octave + 1) * scale.length;
+    return octave * scale.length + best;
+}
+
+function capture(notes: Note[], ctx: ComposerContext): Motif {
+    const { barDuration, scale, rootMidi, harmony } = ctx;
+    const sorted = [...notes].sort((a, b) => a.time - b.time);
+    const first = degreeOf(sorted[0].midi, scale, rootMidi);
+    return {
+        start: first - harmony.chord.degree,
+        notes: sorted.map(note => ({
+            step: degreeOf(note.midi, scale, rootMidi) - first,
+            time: note.time / barDuration,
+            duration: note.duration / barDuration,
+            velocity: note.velocity ?? 0.6,
+        })),
+    };
+}
+
+function develop(motif: Motif, development: Development, rng: Rng): Motif {
+    switch (development) {
+        case 'transpose':
+            return { ...motif, start: motif.start + rng.pick([-2, -1, 1, 2, 3]) };
+        case 'invert':
+            return { ...motif, notes: motif.notes.map(note => ({ ...note, step: -note.step })) };
+        case 'augment':
+            // Twice as slow; what no longer fits in the bar is dropped.
+            return {
+                ...motif,
+                notes: motif.notes
+                    .map(note => ({ ...note, time: note.time * 2, duration: note.duration * 2 }))
+                    .filter(note => note.time < 1),
+            };
+        case 'fragment': {
+            // The first half of the motif, stated twice.
+            const head = motif.notes.filter(note => note.time < 0.5);
+            const source = head.length > 0 ? head : [{ ...motif.notes[0], time: 0 }];
+            return {
+                ...motif,
+                notes: [0, 0.5].flatMap(offset => source.map(note => ({
+                    ...note,
+                    time: note.time + offset,
+                    duration: Math.min(note.duration, 0.5 - note.time),
+                }))),
+            };
+        }
+        default:
+            return motif;
+    }
+}
+
+function realize(motif: Motif, ctx: ComposerContext): Note[] {
+    const { barDuration, scale, rootMidi, harmony } = ctx;
+    return motif.notes.map(note => {
+        let midi = getNoteFromDegree(harmony.chord.degree + motif.start + note.step, scale, rootMidi, 0);
+        while (midi > rootMidi + MELODY_HIGH) midi -= 12;
+        while (midi < rootMidi + MELODY_LOW) midi += 12;
+        return { midi, time: note.time * barDuration, duration: note.duration * barDuration, velocity: note.velocity };
+    });
+}
+
+// The last note of a phrase lands on the nearest chord root and rings to the end of the bar.
+function cadence(notes: Note[], ctx: ComposerContext): Note[] {
+    if (notes.length === 0) return notes;
+    const sorted = [...notes].sort((a, b) => a.time - b.time);
+    const last = sorted[sorted.length - 1];
+    const rootChord = { ...ctx.harmony.chord, intervals: [0] };
+    sorted[sorted.length - 1] = {
+        ...last,
+        midi: snapToChord(last.midi, rootChord, ctx.rootMidi),
+        duration: Math.max(last.duration, ctx.barDuration - last.time),
+    };
+    return sorted;
+}
+
+export class MotifMemory {
+    // motifs[0] is the theme and is never forgotten; the rest are replaced oldest first.
+    private motifs: Motif[] = [];
+
+    reset() {
+        this.motifs = [];
+    }
+
+    // Installs a theme from scale degrees, one note per equal division of the bar,
+    // an octave above the chord root so it sits in the melody register.
+    setTheme(degrees: number[]) {
+        if (degrees.length === 0) return;
+        const theme: Motif = {
+            start: 7 + degrees[0],
+            notes: degrees.map((degree, i) => ({
+                step: degree - degrees[0],
+                time: i / degrees.length,
+                duration: 1 / degrees.length,
+                velocity: 0.6,
+            })),
+        };
+        if (this.motifs.length === 0) this.motifs.push(theme);
+        else this.motifs[0] = theme;
+    }
+
+    // Takes the bar the style composer wrote and decides whether it stands as new material
+    // or gives way to a development of something heard before.
+    shape(fresh: Note[], ctx: ComposerContext): Note[] {
+        const { barIndex, rng, settings } = ctx;
+        if (fresh.length === 0) return fresh; // A rest is part of the phrase too.
+
+        let notes: Note[] = [];
+        if (this.motifs.length > 0 && rng.chance(settings.motifRecurrence)) {
+            const motif = rng.chance(0.4) ? this.motifs[0] : rng.pick(this.motifs);
+            notes = alignToHarmony(realize(develop(motif, rng.pick(DEVELOPMENTS), rng), ctx), ctx);
+        }
+        if (notes.length === 0) {
+            this.remember(capture(fresh, ctx));
+            notes = fresh;
+        }
+
+        return barIndex % PHRASE_BARS === PHRASE_BARS - 1 ? cadence(notes, ctx) : notes;
+    }
+
+    private remember(motif: Motif) {
+        if (this.motifs.length >= MAX_MOTIFS) this.motifs.splice(1, 1);
+        this.motifs.push(motif);
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Multeity (Prog): busy 16th-note bass and arpeggios over functional progressions rich in extensions,
+ * with a chromatic-tinged melodic line over a broken-beat kit.
+ */
+import type { Note, DrumsScore } from '@/types/music';
+import type { ComposerContext, StyleComposer } from './types';
+import { getNoteFromDegree, usesFullKit } from './shared';
+import { composeDrums, type DrumStyle } from './drum-patterns';
+import { alignToHarmony } from './harmony';
+
+const ARPEGGIO = [0, 1, 2, 1]; // Voices of the chord, bottom up
+const DRUMS: DrumStyle = { groove: 'brokenBeat', climax: 'downtempo', percussion: 0.15 };
+
+export const MulteityComposer: StyleComposer = {
+    harmony: { barsPerChord: 2, interchange: 0.2, suspensions: 0.1, extensions: 0.5 },
+    form: [
+        { name: 'intro', bars: 4 }, { name: 'development', bars: 16 }, { name: 'climax', bars: 8 }, { name: 'breakdown', bars: 8 },
+        { name: 'development', bars: 8 }, { name: 'climax', bars: 16 }, { name: 'outro', bars: 4 },
+    ],
+
+    generateBass({ density, barDuration, scale, rootMidi, rng, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        const beatDuration = barDuration / 4;
+        const step = beatDuration / 4; // 16th notes
+        const chordRootDegree = harmony.chord.degree;
+
+        for (let i = 0; i < 16; i++) {
+            if (rng.next() < density * 0.8) {
+                const octave = (i % 8 < 4) ? 0 : 1; // Tonic up to the octave above
+                const degree = chordRootDegree + (i % 4);
+                const midi = getNoteFromDegree(degree, scale, rootMidi, octave);
+                notes.push({ midi, time: i * step, duration: step, velocity: 0.6 + rng.next() * 0.2 });
+            }
+        }
+        return notes;
+    },
+
+    generateAccompaniment({ density, barDuration, rng, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        const beatDuration = barDuration / 4;
+        const step = beatDuration / 4; // 16th notes
+
+        for (let i = 0; i < 16; i++) {
+             if (rng.next() < density * 0.9) {
+                // Arpeggiate the voice-led chord, an octave up so it sits above the bass line.
+                const voice = ARPEGGIO[i % ARPEGGIO.length] % harmony.voicing.length;
+                const midi = harmony.voicing[voice] + 12;
+                notes.push({ midi, time: i * step, duration: step * 1.5, velocity: 0.4 + rng.next() * 0.2 });
+            }
+        }
+        return notes;
+    },
+
+    generateMelody(ctx: ComposerContext): Note[] {
+        const { barIndex, density, barDuration, scale, rootMidi, rng } = ctx;
+        const notes: Note[] = [];
+        if (rng.next() > density * 0.8) return notes;
+
+        const numNotes = Math.floor(density * 12) + 4;
+        const step = barDuration / numNotes;
+        let lastDegree = (barIndex * 3) % scale.length + 14; // Start higher
+
+        for (let i = 0; i < numNotes; i++) {
+             const useChromatic = rng.next() < (density * 0.1);
+             const interval = useChromatic ? (rng.next() < 0.5 ? 1 : -1) : (rng.int(3) - 1) * 2;
+             lastDegree += interval;
+
+             const octave = rng.next() < 0.3 ? 3 : 2;
+             const midi = getNoteFromDegree(lastDegree, scale, rootMidi, octave);
+             if (midi > 52 && midi < 88) { // Keep melody in a reasonable range
+                notes.push({ midi, time: i * step, duration: step * (1.5 + rng.next()), velocity: 0.5 + density * 0.3 });
+             }
+        }
+        return alignToHarmony(notes, ctx);
+    },
+
+    generateDrums(ctx: ComposerContext): DrumsScore {
+        const { barIndex, density } = ctx;
+        return composeDrums(ctx, DRUMS, drums => {
+            // A crash opens every other phrase once the arrangement is dense.
+            if (usesFullKit(ctx) && density > 0.8 && barIndex % 8 === 0) drums.push({ role: 'crash', time: 0, velocity: 0.7 * density });
+            return drums;
+        });
+    },
+};
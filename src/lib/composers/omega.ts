@@ -0,0 +1,111 @@
+/**
+ * Omega (Fractal): self-similar structure at every time scale.
+ *  - Rhythm follows the "ruler" sequence: a step's weight is how many times it
+ *    divides by two, so downbeats outrank half-beats, which outrank quarters, and so on.
+ *  - Harmony uses the same ruler one level up, over bars.
+ *  - The melody is 1/f ("pink") noise from summed octave-spaced generators
+ *    (Voss-McCartney), which sounds more musical than a white random walk.
+ */
+import type { Note, DrumsScore } from '@/types/music';
+import type { ComposerContext, StyleComposer } from './types';
+import { getNoteFromDegree } from './shared';
+import { composeDrums, type DrumStyle } from './drum-patterns';
+import { alignToHarmony, chordToneMidi } from './harmony';
+
+const STEPS = 16;
+const PINK_GENERATORS = 4;
+const CHORD_CYCLE = [0, 4, 5, 3, 6];
+const DRUMS: DrumStyle = { groove: 'minimalTechno', climax: 'dub', percussion: 0.1 };
+
+// Number of trailing zero bits; `cap` stands in for 0, which divides forever.
+function rulerWeight(n: number, cap: number): number {
+    if (n === 0) return cap;
+    let weight = 0;
+    while ((n & 1) === 0 && weight < cap) {
+        n >>= 1;
+        weight++;
+    }
+    return weight;
+}
+
+// Cheap integer hash mapped to [0, 1); stable for a given input and seed.
+function hashNoise(a: number, b: number, seed: number): number {
+    let h = (a * 374761393 + b * 668265263 + seed * 1442695041) | 0;
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+}
+
+// Voss-McCartney: generator k only changes every 2^k steps.
+function pinkNoise(step: number, seed: number): number {
+    let sum = 0;
+    for (let k = 0; k < PINK_GENERATORS; k++) {
+        sum += hashNoise(k, Math.floor(step / (1 << k)), seed);
+    }
+    return sum / PINK_GENERATORS;
+}
+
+const chordRootFor = (barIndex: number) => CHORD_CYCLE[rulerWeight(barIndex, 4) % CHORD_CYCLE.length];
+
+export const OmegaComposer: StyleComposer = {
+    // Open, suspended sonorities suit the self-similar texture.
+    harmony: { barsPerChord: 1, rootFor: chordRootFor, interchange: 0.05, suspensions: 0.5, extensions: 0.3 },
+    form: [
+        { name: 'intro', bars: 8 }, { name: 'development', bars: 16 }, { name: 'breakdown', bars: 8 },
+        { name: 'climax', bars: 16 }, { name: 'outro', bars: 8 },
+    ],
+
+    generateBass({ density, barDuration, rootMidi, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        const step = barDuration / STEPS;
+        // Deeper levels of the ruler appear as density rises.
+        const threshold = density > 0.7 ? 2 : (density > 0.4 ? 3 : 4);
+
+        for (let i = 0; i < STEPS; i++) {
+            const weight = rulerWeight(i, 4);
+            if (weight < threshold) continue;
+            const octave = weight === 4 ? 0 : 1;
+            const midi = chordToneMidi(harmony.chord, 0, rootMidi, octave);
+            notes.push({ midi, time: i * step, duration: step * (1 << (weight - 1)), velocity: 0.4 + weight * 0.08 });
+        }
+        return notes;
+    },
+
+    generateMelody(ctx: ComposerContext): Note[] {
+        const { barIndex, density, barDuration, scale, rootMidi, rng, harmony } = ctx;
+        const notes: Note[] = [];
+        const step = barDuration / STEPS;
+        const root = harmony.chord.degree;
+        const threshold = density > 0.6 ? 1 : 2;
+
+        for (let i = 0; i < STEPS; i++) {
+            const weight = rulerWeight(i, 4);
+            if (weight < threshold || rng.next() > density + 0.1) continue;
+            const noise = pinkNoise(barIndex * STEPS + i, rng.seed);
+            const degree = root + Math.floor(noise * 10) + 5; // roughly a tenth above the chord root
+            const midi = getNoteFromDegree(degree, scale, rootMidi, 1);
+            notes.push({ midi, time: i * step, duration: step * (1 << weight), velocity: 0.3 + weight * 0.08 });
+        }
+        return alignToHarmony(notes, ctx);
+    },
+
+    generateAccompaniment({ density, barDuration, harmony }: ComposerContext): Note[] {
+        const notes: Note[] = [];
+        if (density < 0.2) return notes;
+
+        // The chord builds up from the bottom, each voice entering at half the distance of the one below it.
+        const voices = Math.min(harmony.voicing.length, 2 + Math.floor(density * 2));
+        let entry = 0;
+        for (let v = 1; v <= voices; v++) {
+            harmony.voicing.slice(0, v).forEach(midi => {
+                notes.push({ midi, time: entry * barDuration, duration: barDuration * (1 - entry), velocity: 0.4 - v * 0.05 });
+            });
+            entry = entry + (1 - entry) / 2;
+        }
+        return notes;
+    },
+
+    generateDrums(ctx: ComposerContext): DrumsScore {
+        return composeDrums(ctx, DRUMS);
+    },
+};
@@ -0,0 +1,64 @@
+import type { DrumsScore } from '@/types/music';
+import { PERCUSSION_VARIANTS } from '../drum-kits';
+import type { ComposerContext } from './types';
+
+// --- Musical Constants ---
+export const PHRASE_BARS = 4;
+
+// Times are fractions of the fill, which takes over the second half of a phrase's last bar.
+export const DRUM_FILL_PATTERNS: DrumsScore[] = [
+    // Fill 1: Simple tom roll
+    [
+        { role: 'tomHigh', time: 0, velocity: 0.7 },
+        { role: 'tomHigh', time: 0.25, velocity: 0.75 },
+        { role: 'tomMid', time: 0.5, velocity: 0.8 },
+        { role: 'tomLow', time: 0.75, velocity: 0.85 },
+    ],
+    // Fill 2: Snare build-up, rising in pitch
+    [
+        { role: 'snare', time: 0, velocity: 0.5 },
+        { role: 'snare', time: 0.125, velocity: 0.6, pitch: 0.25 },
+        { role: 'snare', time: 0.25, velocity: 0.7, pitch: 0.5 },
+        { role: 'snare', time: 0.375, velocity: 0.8, pitch: 0.75 },
+        { role: 'snare', time: 0.5, velocity: 0.9, pitch: 1 },
+        { role: 'snare', time: 0.625, velocity: 1.0, pitch: 1.5 },
+        { role: 'snare', time: 0.75, velocity: 1.0, pitch: 2 },
+        { role: 'crash', time: 0.875, velocity: 0.9 },
+    ],
+    // Fill 3: Syncopated kick/snare
+    [
+        { role: 'kick', time: 0, velocity: 0.9 },
+        { role: 'kick', time: 0.375, velocity: 0.7 },
+        { role: 'snare', time: 0.5, velocity: 0.8 },
+        { role: 'tomHigh', time: 0.75, velocity: 0.6 },
+        { role: 'crash', time: 0.875, velocity: 0.7 },
+    ]
+];
+
+// --- Note Generation Helpers ---
+export const getNoteFromDegree = (degree: number, scale: number[], root: number, octave: number) => {
+    const scaleLength = scale.length;
+    const noteInScale = scale[((degree % scaleLength) + scaleLength) % scaleLength];
+    const octaveOffset = Math.floor(degree / scaleLength);
+    return root + (octave + octaveOffset) * 12 + noteInScale;
+};
+
+// Each style's own groove only plays on the 'composer' pattern; 'ambient_beat' plays the soft
+// ambient groove instead (see ./drum-patterns).
+export const usesFullKit = (ctx: ComposerContext) => ctx.settings.drumSettings.pattern === 'composer';
+
+// Sprinkles percussive one-shots on the off-beats, on top of whichever groove is playing.
+// Shared by every style; `chanceScale` is how busy the style wants them.
+export function generatePercussion(ctx: ComposerContext, chanceScale = 0.15): DrumsScore {
+    const drums: DrumsScore = [];
+    if (ctx.density <= 0.2) return drums;
+
+    const step = ctx.barDuration / 16;
+    for (let i = 0; i < 16; i++) {
+        if (i % 4 !== 0 && ctx.rng.chance(ctx.density * chanceScale)) {
+            const variant = ctx.rng.int(PERCUSSION_VARIANTS);
+            drums.push({ role: 'perc', variant, time: i * step, velocity: ctx.rng.next() * 0.3 + 0.2 });
+        }
+    }
+    return drums;
+}
@@ -0,0 +1,72 @@
+import type { Note, DrumsScore, WorkerSettings, SectionName } from '@/types/music';
+import type { Rng } from '../random';
+
+// Everything a composer needs to know to write a single bar.
+export type ComposerContext = {
+    barIndex: number;      // Bar number since the scheduler started.
+    density: number;       // 0-1, how busy the arrangement should be.
+    barDuration: number;   // Length of the bar in seconds.
+    scale: number[];       // Semitone offsets of the current mode.
+    rootMidi: number;      // MIDI note of the tonic in the bass register.
+    rng: Rng;              // Seeded source for every random decision; never use Math.random.
+    harmony: HarmonyState; // The chord every part agrees on for this bar.
+    section: SectionState; // Where the bar sits in the song form.
+    settings: WorkerSettings;
+};
+
+export type ChordQuality = 'triad' | 'sus2' | 'sus4' | 'seventh' | 'ninth';
+
+// A chord realised in the current key.
+export type Chord = {
+    degree: number;        // Root as a scale degree of the key.
+    quality: ChordQuality;
+    root: number;          // Root in semitones above the tonic, 0-11.
+    intervals: number[];   // Chord tones in semitones above the chord root, ascending, root first.
+    borrowed: boolean;     // Taken from the parallel mode (modal interchange).
+    symbol: string;        // Roman numeral, for logs and the UI.
+};
+
+export type HarmonyState = {
+    chord: Chord;          // Sounding in this bar.
+    next: Chord;           // Planned for the following bar, for walking bass lines and pickups.
+    voicing: number[];     // MIDI notes for the accompaniment, voice-led from the previous bar.
+};
+
+// How a style writes its progressions. Styles with their own root logic supply `rootFor`;
+// the others get functional progressions (tonic -> subdominant -> dominant -> tonic).
+export type HarmonyProfile = {
+    barsPerChord: number;
+    rootFor?: (barIndex: number) => number;
+    interchange: number;   // Chance, 0-1, of borrowing a chord from the parallel mode.
+    suspensions: number;   // Chance of a sus2/sus4 chord.
+    extensions: number;    // Chance of a seventh or ninth chord.
+};
+
+export type SectionPart = 'bass' | 'melody' | 'accompaniment';
+
+// One section of a style's form; lengths are nominal and vary a phrase either way.
+export type FormSection = {
+    name: SectionName;
+    bars: number;
+};
+
+export type SectionState = {
+    name: SectionName;
+    bars: number;          // Length of this section.
+    barInSection: number;
+    energy: number;        // 0-1; rises through builds, falls through breakdowns and the outro.
+    parts: SectionPart[];  // Pitched parts that play in this section.
+    drums: 'full' | 'light' | 'none';
+    pad: string | null;    // Pad override for the section, if any.
+};
+
+// The contract every style composer implements. The scheduler looks a composer up
+// by ScoreName and asks it for one bar of each part on every tick.
+export interface StyleComposer {
+    harmony: HarmonyProfile;
+    form: FormSection[];
+    generateBass(ctx: ComposerContext): Note[];
+    generateMelody(ctx: ComposerContext): Note[];
+    generateAccompaniment(ctx: ComposerContext): Note[];
+    generateDrums(ctx: ComposerContext): DrumsScore;
+}
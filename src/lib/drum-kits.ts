@@ -0,0 +1,172 @@
+/**
+ * The bundled drum kits.
+ *
+ * A kit is a manifest: a name, and for each role the samples that play it and how they are
+ * voiced. Composers only write roles (see DrumHit), so switching kits changes the sound of a
+ * pattern without changing the pattern. A role a kit leaves out falls back to the standard kit.
+ *
+ * When a role has several samples, a hit's `variant` picks one (wrapping around), which is how
+ * the percussion one-shots are spread out. Without a variant the samples take turns, or, for a
+ * role voiced with `layers`, the hit's velocity picks between them.
+ */
+import type { DrumKitName, DrumRole, DrumHit } from '@/types/music';
+
+// How a role's samples are played.
+export type DrumVoice = {
+    gain?: number;    // level, 1 when left out
+    tune?: number;    // semitones, on top of the kit's tune
+    pan?: number;     // -1 (left) to 1 (right)
+    decay?: number;   // seconds the hit takes to die away, for a tighter sound than the sample's own
+    length?: number;  // seconds after which the hit is cut off
+    layers?: boolean; // the samples are velocity layers, softest first, rather than alternatives
+};
+
+export type DrumKit = {
+    name: DrumKitName;
+    label: string;
+    samples: Partial<Record<DrumRole, string[]>>;
+    tune?: number; // semitones the whole kit is repitched by
+    voices?: Partial<Record<DrumRole, DrumVoice>>;
+};
+
+export const DEFAULT_DRUM_KIT: DrumKitName = 'standard';
+
+const sample = (name: string) => `/assets/drums/${name}.wav`;
+const percussion = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => sample(`perc-${String(from + i).padStart(3, '0')}`));
+
+// How many percussion variants the composers choose from; the standard kit has one sample for each.
+export const PERCUSSION_VARIANTS = 15;
+
+export const DRUM_KITS: Record<DrumKitName, DrumKit> = {
+    standard: {
+        name: 'standard',
+        label: 'Standard',
+        samples: {
+            kick: [sample('kick_drum6')],
+            snare: [sample('snare_ghost_note'), sample('snare')],
+            hat: [sample('closed_hi_hat_ghost'), sample('closed_hi_hat_accented')],
+            openHat: [sample('open_hh_top2')],
+            crash: [sample('crash1')],
+            tomLow: [sample('lowtom')],
+            tomMid: [sample('midtom')],
+            tomHigh: [sample('hightom')],
+            perc: percussion(1, PERCUSSION_VARIANTS),
+        },
+        voices: {
+            snare: { layers: true },
+            hat: { layers: true, pan: 0.2 },
+            openHat: { pan: 0.2 },
+            crash: { pan: -0.2 },
+            tomHigh: { pan: -0.25 },
+            tomLow: { pan: 0.25 },
+        },
+    },
+    lofi: {
+        name: 'lofi',
+        label: 'Lo-fi',
+        samples: {
+            kick: [sample('kick_drum6')],
+            snare: [sample('snare_off')],
+            hat: [sample('hh_bark_short')],
+            openHat: [sample('open_hh_bottom2')],
+            crash: [sample('cymbal2')],
+            perc: percussion(1, 8),
+        },
+        tune: -3,
+        voices: {
+            kick: { decay: 0.5 },
+            hat: { gain: 0.8, pan: 0.15 },
+            openHat: { length: 0.6, pan: 0.15 },
+            crash: { gain: 0.6, length: 1.5 },
+        },
+    },
+    brushes: {
+        name: 'brushes',
+        label: 'Soft Brushes',
+        samples: {
+            kick: [sample('kick_drum6')],
+            snare: [sample('snarepress')],
+            hat: [sample('closed_hi_hat_ghost')],
+            openHat: [sample('open_hh_bottom2')],
+            crash: [sample('cymbal1')],
+            perc: percussion(9, 15),
+        },
+        tune: -1,
+        voices: {
+            kick: { gain: 0.6, decay: 0.4 },
+            snare: { gain: 0.8, pan: -0.1 },
+            hat: { pan: 0.3 },
+            openHat: { pan: 0.3 },
+            crash: { gain: 0.5, pan: -0.3 },
+        },
+    },
+    electronic: {
+        name: 'electronic',
+        label: 'Electronic',
+        samples: {
+            kick: [sample('kick_drum6')],
+            snare: [sample('snare'), sample('snare_off')],
+            hat: [sample('hh_bark_short')],
+            openHat: [sample('open_hh_top2')],
+            crash: [sample('crash2')],
+            perc: percussion(1, PERCUSSION_VARIANTS),
+        },
+        tune: 2,
+        voices: {
+            kick: { gain: 1.1, tune: -2, length: 0.35 },
+            hat: { length: 0.06, pan: 0.25 },
+            openHat: { length: 0.3, pan: 0.25 },
+            crash: { length: 1 },
+        },
+    },
+    organic: {
+        name: 'organic',
+        label: 'Organic',
+        samples: {
+            kick: [sample('kick_drum6')],
+            snare: [sample('snare_ghost_note')],
+            hat: [sample('closed_hi_hat_ghost')],
+            openHat: [sample('open_hh_top2')],
+            crash: [sample('cymbal3')],
+            perc: [sample('cymbal_bell1'), sample('cymbal_bell2'), ...percussion(9, 15)],
+        },
+        voices: {
+            kick: { gain: 0.8 },
+            snare: { pan: -0.1 },
+            hat: { pan: 0.2 },
+            openHat: { pan: 0.2 },
+            crash: { gain: 0.6, pan: -0.25 },
+            perc: { pan: 0.1 },
+        },
+    },
+};
+
+export const DRUM_KIT_NAMES = Object.keys(DRUM_KITS) as DrumKitName[];
+
+// The samples that play `role` in `kit` and how they are voiced; a role the kit leaves out
+// comes from the standard kit, voicing included.
+export function kitRole(kit: DrumKit, role: DrumRole): { samples: string[]; voice: DrumVoice } {
+    const owner = kit.samples[role] ? kit : DRUM_KITS[DEFAULT_DRUM_KIT];
+    return { samples: owner.samples[role] ?? [], voice: owner.voices?.[role] ?? {} };
+}
+
+// Drum scores used to name sampler notes; these are the roles those notes played.
+const LEGACY_NOTES: Record<string, Omit<DrumHit, 'time' | 'velocity'>> = {
+    'C4': { role: 'kick' },
+    'D4': { role: 'snare' },
+    'E4': { role: 'hat' },
+    'F4': { role: 'openHat' },
+    'G4': { role: 'crash' },
+    'A4': { role: 'tomHigh' },
+    ...Object.fromEntries(
+        ['C2', 'C#2', 'D2', 'D#2', 'E2', 'F2', 'F#2', 'G2', 'G#2', 'A2', 'A#2', 'B2', 'C3', 'C#3', 'D3']
+            .map((note, variant) => [note, { role: 'perc', variant }]),
+    ),
+};
+
+// A hit from an old score, or null for a note no kit ever mapped.
+export function legacyDrumHit(hit: { note: string; time: number; velocity?: number }): DrumHit | null {
+    const mapped = LEGACY_NOTES[hit.note];
+    return mapped ? { ...mapped, time: hit.time, velocity: hit.velocity } : null;
+}
@@ -1,87 +1,121 @@
+import type { DrumHit, DrumKitName, DrumRole } from "@/types/music";
+import { DRUM_KITS, DEFAULT_DRUM_KIT, kitRole, type DrumKit, type DrumVoice } from "./drum-kits";
 
-import type { SamplerNote } from "@/types/music";
-
-const DRUM_SAMPLES: Record<string, string> = {
-    // Basic Kit
-    'C4': '/assets/drums/kick_drum6.wav',
-    'D4': '/assets/drums/snare.wav',
-    'E4': '/assets/drums/closed_hi_hat_accented.wav',
-    'F4': '/assets/drums/open_hh_top2.wav',
-    'G4': '/assets/drums/crash1.wav',
-    'A4': '/assets/drums/hightom.wav',
-
-    // Percussion one-shots (mapped to C2-D#3)
-    'C2': '/assets/drums/perc-001.wav',
-    'C#2': '/assets/drums/perc-002.wav',
-    'D2': '/assets/drums/perc-003.wav',
-    'D#2': '/assets/drums/perc-004.wav',
-    'E2': '/assets/drums/perc-005.wav',
-    'F2': '/assets/drums/perc-006.wav',
-    'F#2': '/assets/drums/perc-007.wav',
-    'G2': '/assets/drums/perc-008.wav',
-    'G#2': '/assets/drums/perc-009.wav',
-    'A2': '/assets/drums/perc-010.wav',
-    'A#2': '/assets/drums/perc-011.wav',
-    'B2': '/assets/drums/perc-012.wav',
-    'C3': '/assets/drums/perc-013.wav',
-    'C#3': '/assets/drums/perc-014.wav',
-    'D3': '/assets/drums/perc-015.wav',
-};
-
+// Buffers are kept by URL, so kits that share a sample share its buffer and a kit that has
+// been used once switches back instantly.
 type Sampler = {
     buffers: Map<string, AudioBuffer>;
-    load: (samples: Record<string, string>) => Promise<void>;
-    triggerAttack: (note: string, time: number, velocity?: number) => void;
+    load: (urls: string[]) => Promise<void>;
+    triggerAttack: (url: string, time: number, options: AttackOptions) => SamplerVoice | null;
 }
 
-function createSampler(audioContext: AudioContext, output: AudioNode): Sampler {
+type AttackOptions = {
+    velocity: number;
+    playbackRate: number;
+    pan: number;
+    decay?: number;
+    length?: number;
+    chokable: boolean; // gets a gain stage of its own that a choke can close
+};
+
+// A hit once it is scheduled: what a choke needs to cut it short.
+type SamplerVoice = {
+    source: AudioBufferSourceNode;
+    choke: GainNode | null;
+    start: number;
+    end: number;
+};
+
+const CUT_FADE = 0.01; // seconds; fades a truncated or choked hit instead of clicking
+const DECAY_CURVE = 5; // time constants in a voice's decay, so it is ~40 dB down at the end
+
+function createSampler(audioContext: BaseAudioContext, output: AudioNode): Sampler {
     const buffers = new Map<string, AudioBuffer>();
+    const loading = new Map<string, Promise<void>>();
 
-    const load = async (samples: Record<string, string>) => {
-        const promises = Object.entries(samples).map(async ([note, url]) => {
-            try {
-                const response = await fetch(url);
-                if (!response.ok) {
-                    throw new Error(`Failed to fetch sample: ${url} (${response.statusText})`);
+    const loadOne = (url: string) => {
+        if (!loading.has(url)) {
+            loading.set(url, (async () => {
+                try {
+                    const response = await fetch(url);
+                    if (!response.ok) {
+                        throw new Error(`Failed to fetch sample: ${url} (${response.statusText})`);
+                    }
+                    const arrayBuffer = await response.arrayBuffer();
+                    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+                    buffers.set(url, audioBuffer);
+                } catch (error) {
+                    console.error(`Error loading sample ${url}:`, error);
                 }
-                const arrayBuffer = await response.arrayBuffer();
-                const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-                buffers.set(note, audioBuffer);
-            } catch (error) {
-                console.error(`Error loading sample ${note} from ${url}:`, error);
-            }
-        });
-        await Promise.all(promises);
+            })());
+        }
+        return loading.get(url)!;
+    };
+
+    const load = async (urls: string[]) => {
+        await Promise.all(urls.map(loadOne));
     };
 
-    const triggerAttack = (note: string, time: number, velocity = 1) => {
-        const buffer = buffers.get(note);
+    // Velocity, decay and truncation are all automated from `time`, the moment the hit sounds.
+    const triggerAttack = (url: string, time: number, options: AttackOptions): SamplerVoice | null => {
+        const buffer = buffers.get(url);
         if (!buffer) {
-            console.warn(`[DrumMachine] Sample for note ${note} not found.`);
-            return;
+            console.warn(`[DrumMachine] Sample ${url} not loaded.`);
+            return null;
         }
 
         const source = audioContext.createBufferSource();
         source.buffer = buffer;
+        source.playbackRate.value = options.playbackRate;
 
         const gainNode = audioContext.createGain();
-        gainNode.gain.setValueAtTime(velocity, audioContext.currentTime);
-        
+        gainNode.gain.setValueAtTime(options.velocity, time);
+        let end = time + buffer.duration / options.playbackRate;
+        if (options.decay !== undefined) {
+            gainNode.gain.setTargetAtTime(0, time, options.decay / DECAY_CURVE);
+            end = Math.min(end, time + options.decay);
+        }
+        if (options.length !== undefined && time + options.length < end) {
+            end = time + options.length;
+            gainNode.gain.setTargetAtTime(0, Math.max(time, end - CUT_FADE), CUT_FADE / DECAY_CURVE);
+        }
+
+        let node: AudioNode = gainNode;
         source.connect(gainNode);
-        gainNode.connect(output); // Corrected: connect to the provided output gain node
+        const choke = options.chokable ? audioContext.createGain() : null;
+        if (choke) node = node.connect(choke);
+        if (options.pan !== 0) {
+            const panner = audioContext.createStereoPanner();
+            panner.pan.value = options.pan;
+            node = node.connect(panner);
+        }
+        node.connect(output);
         source.start(time);
+        source.stop(end);
+        return { source, choke, start: time, end };
     };
 
     return { buffers, load, triggerAttack };
 }
 
+// A hit on a role cuts off what the roles it chokes are still playing: a closed hat closes an
+// open one, and an open hat restarts rather than piling up.
+const CHOKES: Partial<Record<DrumRole, DrumRole[]>> = {
+    hat: ['openHat'],
+    openHat: ['openHat'],
+};
+const CHOKABLE = new Set(Object.values(CHOKES).flat());
+
 export class DrumMachine {
-    private audioContext: AudioContext;
+    private audioContext: BaseAudioContext;
     private sampler: Sampler | null = null;
     private outputNode: AudioNode;
+    private kit: DrumKit = DRUM_KITS[DEFAULT_DRUM_KIT];
+    private roundRobin = new Map<DrumRole, number>();
+    private sounding: { role: DrumRole; voice: SamplerVoice }[] = []; // voices not finished yet, scheduled ones included
     public isInitialized = false;
 
-    constructor(audioContext: AudioContext, destination: AudioNode) {
+    constructor(audioContext: BaseAudioContext, destination: AudioNode) {
         this.audioContext = audioContext;
         this.outputNode = destination;
     }
@@ -89,24 +123,89 @@ export class DrumMachine {
     async init() {
         if (this.isInitialized) return;
         this.sampler = createSampler(this.audioContext, this.outputNode);
-        await this.sampler.load(DRUM_SAMPLES);
+        // The standard kit is always loaded: it stands in while another kit loads.
+        await Promise.all([this.loadKit(DRUM_KITS[DEFAULT_DRUM_KIT]), this.loadKit(this.kit)]);
         this.isInitialized = true;
     }
 
-    schedule(score: SamplerNote[], time: number) {
+    private loadKit(kit: DrumKit) {
+        return this.sampler!.load(Object.values(kit.samples).flat());
+    }
+
+    // Switches kits. The samples of a kit not used before are fetched now; until they arrive,
+    // its hits play from the standard kit.
+    async setKit(name: DrumKitName) {
+        const kit = DRUM_KITS[name] ?? DRUM_KITS[DEFAULT_DRUM_KIT];
+        if (kit === this.kit) return;
+        this.kit = kit;
+        this.roundRobin.clear();
+        if (this.sampler) await this.loadKit(kit);
+    }
+
+    // Which of the role's samples plays the hit: the one it names, the velocity layer it
+    // reaches, or the next in turn.
+    private pick(samples: string[], voice: DrumVoice, hit: DrumHit): string {
+        if (hit.variant !== undefined) return samples[hit.variant % samples.length];
+        if (voice.layers) return samples[Math.min(samples.length - 1, Math.floor((hit.velocity ?? 1) * samples.length))];
+        const turn = this.roundRobin.get(hit.role) ?? 0;
+        this.roundRobin.set(hit.role, turn + 1);
+        return samples[turn % samples.length];
+    }
+
+    private sampleFor(hit: DrumHit): { url: string; voice: DrumVoice } | undefined {
+        const role = kitRole(this.kit, hit.role);
+        if (role.samples.length === 0) return undefined;
+        const url = this.pick(role.samples, role.voice, hit);
+        if (this.sampler?.buffers.has(url)) return { url, voice: role.voice };
+        const fallback = kitRole(DRUM_KITS[DEFAULT_DRUM_KIT], hit.role);
+        if (fallback.samples.length === 0) return { url, voice: role.voice };
+        return { url: this.pick(fallback.samples, fallback.voice, hit), voice: fallback.voice };
+    }
+
+    private choke(role: DrumRole, time: number) {
+        const choked = CHOKES[role];
+        if (!choked) return;
+        this.sounding.forEach(({ role: playing, voice }) => {
+            // A voice that ends within the fade anyway, or has been choked already, is left alone.
+            if (!choked.includes(playing) || voice.start >= time || voice.end <= time + CUT_FADE || !voice.choke) return;
+            voice.choke.gain.setValueAtTime(1, time);
+            voice.choke.gain.linearRampToValueAtTime(0, time + CUT_FADE);
+            voice.end = time + CUT_FADE;
+            voice.source.stop(voice.end);
+        });
+    }
+
+    schedule(score: DrumHit[], time: number) {
         if (!this.sampler || !this.isInitialized) {
             console.warn('[DrumMachine] Tried to schedule score before initialization.');
             return;
         }
-        
-        for (const note of score) {
-            this.sampler.triggerAttack(note.note, time + note.time, note.velocity);
-        }
+
+        const now = this.audioContext.currentTime;
+        this.sounding = this.sounding.filter(({ voice }) => voice.end > now);
+        [...score].sort((a, b) => a.time - b.time).forEach(hit => {
+            const sample = this.sampleFor(hit);
+            if (!sample) return;
+            const { url, voice } = sample;
+            const start = time + hit.time;
+            this.choke(hit.role, start);
+            const semitones = (this.kit.tune ?? 0) + (voice.tune ?? 0) + (hit.pitch ?? 0);
+            const played = this.sampler!.triggerAttack(url, start, {
+                velocity: (hit.velocity ?? 1) * (voice.gain ?? 1),
+                playbackRate: Math.pow(2, semitones / 12),
+                pan: voice.pan ?? 0,
+                decay: voice.decay,
+                length: voice.length,
+                chokable: CHOKABLE.has(hit.role),
+            });
+            if (played) this.sounding.push({ role: hit.role, voice: played });
+        });
     }
 
+    // Hits are scheduled bars ahead, so stopping has to cancel the ones still to come.
     public stop() {
-        // Since we schedule samples with precise timing and they are short-lived,
-        // a specific 'stop' for scheduled notes is often not necessary.
-        // If we were using Tone.Part, we would call part.stop() here.
+        const now = this.audioContext.currentTime;
+        this.sounding.forEach(({ voice }) => voice.source.stop(Math.max(now, voice.start)));
+        this.sounding = [];
     }
 }
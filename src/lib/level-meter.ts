@@ -0,0 +1,48 @@
+/**
+ * Level metering for the mixer view: peak and RMS read from the mixer's AnalyserNodes.
+ */
+import type { Level, MixerLevels, MixerPart } from '@/types/music';
+import type { Mixer } from './audio-graph';
+
+export const CLIP_LEVEL = 0.999; // A sample this close to full scale counts as clipped.
+export const METER_FLOOR_DB = -60;
+
+const METERED_PARTS: MixerPart[] = ['bass', 'melody', 'accompaniment', 'drums', 'sparkles', 'pads'];
+
+// One scratch buffer per analyser, reused on every read.
+const buffers = new WeakMap<AnalyserNode, Float32Array>();
+
+function measure(analyser: AnalyserNode): Level {
+    let buffer = buffers.get(analyser);
+    if (!buffer) {
+        buffer = new Float32Array(analyser.fftSize);
+        buffers.set(analyser, buffer);
+    }
+    analyser.getFloatTimeDomainData(buffer);
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < buffer.length; i++) {
+        const sample = Math.abs(buffer[i]);
+        if (sample > peak) peak = sample;
+        sum += sample * sample;
+    }
+    return { peak, rms: Math.sqrt(sum / buffer.length) };
+}
+
+export function readLevels(mixer: Mixer): MixerLevels {
+    const parts = {} as Record<MixerPart, Level>;
+    METERED_PARTS.forEach(part => {
+        parts[part] = measure(mixer.channels[part].meter);
+    });
+    const loudest = (meters: AnalyserNode[]) => meters.map(measure).reduce((a, b) => ({
+        peak: Math.max(a.peak, b.peak),
+        rms: Math.max(a.rms, b.rms),
+    }));
+    const master = loudest(mixer.masterMeters);
+    // The limiter holds the output under its ceiling, so clipping is read from the mix it is given.
+    const clipped = loudest(mixer.clipMeters).peak >= CLIP_LEVEL;
+    return { parts, master: { ...master, clipped } };
+}
+
+// Linear level to dBFS, floored so silence stays on the scale.
+export const levelToDb = (level: number) => Math.max(METER_FLOOR_DB, 20 * Math.log10(Math.max(level, 1e-6)));
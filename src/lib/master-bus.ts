@@ -0,0 +1,213 @@
+/**
+ * The master effects bus that follows the EQ:
+ *
+ *   input -+----------------------------------+-> compressor -> limiter -> destination
+ *          +-> reverb send -> convolver ------+
+ *          +-> delay send -> ping-pong delay -+
+ *
+ * The reverb and the delay are send effects: their returns are summed with the dry signal, and
+ * their inputs are public so that single parts can feed them too. The compressor and the
+ * limiter are inserts with a dry path alongside, so bypassing one crossfades instead of
+ * rewiring the graph while it plays. The reverb's impulse response is generated (decaying
+ * stereo noise) rather than loaded, so it can follow the decay setting. Its length and the
+ * clipper's oversampling are the costly parts, so the performance profile can turn them down.
+ */
+import type { DelayDivision, MasterBusSettings } from '@/types/music';
+import { createRng } from './random';
+
+export const DEFAULT_MASTER_BUS: MasterBusSettings = {
+    reverb: { enabled: true, mix: 0.2, decay: 4 },
+    delay: { enabled: false, mix: 0.15, feedback: 0.35, division: '1/8d' },
+    compressor: { enabled: true, threshold: -18, ratio: 3 },
+    limiter: { enabled: true, ceiling: -1 },
+};
+
+// Length of each division in beats.
+export const DELAY_DIVISIONS: Record<DelayDivision, number> = {
+    '1/16': 0.25, '1/8': 0.5, '1/8d': 0.75, '1/4': 1, '1/4d': 1.5, '1/2': 2,
+};
+
+const MAX_DELAY_TIME = 4; // seconds; a half note at 30 BPM
+const DELAY_TONE = 4500;  // Hz; each repeat comes back a little darker
+const SMOOTHING = 0.02;   // time constant for parameter and bypass changes
+const IMPULSE_SEED = 0x5eed; // the same noise every time, so a seed always sounds the same
+
+// Decaying stereo noise; independent channels give the tail its width.
+function generateImpulse(context: BaseAudioContext, decay: number): AudioBuffer {
+    const length = Math.max(1, Math.round(decay * context.sampleRate));
+    const impulse = context.createBuffer(2, length, context.sampleRate);
+    const rng = createRng(IMPULSE_SEED);
+    for (let channel = 0; channel < 2; channel++) {
+        const data = impulse.getChannelData(channel);
+        for (let i = 0; i < length; i++) {
+            // -60 dB at the end of the buffer.
+            data[i] = (rng.next() * 2 - 1) * Math.pow(10, -3 * i / length);
+        }
+    }
+    return impulse;
+}
+
+// A hard clip at `ceiling`, for whatever the limiter's attack lets through.
+function clipCurve(ceiling: number): Float32Array {
+    const curve = new Float32Array(1024);
+    for (let i = 0; i < curve.length; i++) {
+        const x = (i / (curve.length - 1)) * 2 - 1;
+        curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+    }
+    return curve;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export class MasterBus {
+    private context: BaseAudioContext;
+    public readonly input: GainNode;
+    public readonly output: GainNode;
+    public readonly preLimiter: GainNode; // The mix as it enters the limiter, for clip metering.
+    public readonly reverbInput: GainNode;
+    public readonly delayInput: GainNode;
+
+    private reverbSend: GainNode;
+    private convolver: ConvolverNode;
+    private reverbReturn: GainNode;
+    private delaySend: GainNode;
+    private delayLeft: DelayNode;
+    private delayRight: DelayNode;
+    private delayFeedback: GainNode;
+    private delayReturn: GainNode;
+    private compressor: DynamicsCompressorNode;
+    private compressorWet: GainNode;
+    private compressorDry: GainNode;
+    private limiter: DynamicsCompressorNode;
+    private clipper: WaveShaperNode;
+    private limiterWet: GainNode;
+    private limiterDry: GainNode;
+
+    private settings: MasterBusSettings = DEFAULT_MASTER_BUS;
+    private impulseLength: number | null = null;
+    private maxReverbLength = Infinity;
+    private beatDuration = 0.8; // 75 BPM until the first bar says otherwise
+
+    constructor(context: BaseAudioContext, destination: AudioNode) {
+        this.context = context;
+        this.input = context.createGain();
+        const sum = context.createGain();
+        this.input.connect(sum);
+
+        // Reverb
+        this.reverbSend = context.createGain();
+        this.reverbInput = context.createGain();
+        this.convolver = context.createConvolver();
+        this.reverbReturn = context.createGain();
+        this.input.connect(this.reverbSend);
+        this.reverbSend.connect(this.reverbInput);
+        this.reverbInput.connect(this.convolver);
+        this.convolver.connect(this.reverbReturn);
+        this.reverbReturn.connect(sum);
+
+        // Ping-pong delay: the left tap feeds the right, the right feeds back into the left.
+        this.delaySend = context.createGain();
+        this.delayInput = context.createGain();
+        const tone = context.createBiquadFilter();
+        tone.type = 'lowpass';
+        tone.frequency.value = DELAY_TONE;
+        this.delayLeft = context.createDelay(MAX_DELAY_TIME);
+        this.delayRight = context.createDelay(MAX_DELAY_TIME);
+        this.delayFeedback = context.createGain();
+        const stereo = context.createChannelMerger(2);
+        this.delayReturn = context.createGain();
+        this.input.connect(this.delaySend);
+        this.delaySend.connect(this.delayInput);
+        this.delayInput.connect(tone);
+        tone.connect(this.delayLeft);
+        this.delayLeft.connect(this.delayRight);
+        this.delayRight.connect(this.delayFeedback);
+        this.delayFeedback.connect(tone);
+        this.delayLeft.connect(stereo, 0, 0);
+        this.delayRight.connect(stereo, 0, 1);
+        stereo.connect(this.delayReturn);
+        this.delayReturn.connect(sum);
+
+        // Bus compressor
+        const compressorOut = context.createGain();
+        this.preLimiter = compressorOut;
+        this.compressor = context.createDynamicsCompressor();
+        this.compressor.attack.value = 0.01;
+        this.compressor.release.value = 0.25;
+        this.compressor.knee.value = 6;
+        this.compressorWet = context.createGain();
+        this.compressorDry = context.createGain();
+        sum.connect(this.compressor);
+        this.compressor.connect(this.compressorWet);
+        this.compressorWet.connect(compressorOut);
+        sum.connect(this.compressorDry);
+        this.compressorDry.connect(compressorOut);
+
+        // Brickwall limiter: a fast, hard-kneed compressor with a clipper behind it.
+        this.output = context.createGain();
+        this.limiter = context.createDynamicsCompressor();
+        this.limiter.attack.value = 0.001;
+        this.limiter.release.value = 0.05;
+        this.limiter.knee.value = 0;
+        this.limiter.ratio.value = 20;
+        this.clipper = context.createWaveShaper();
+        this.clipper.oversample = '4x';
+        this.limiterWet = context.createGain();
+        this.limiterDry = context.createGain();
+        compressorOut.connect(this.limiter);
+        this.limiter.connect(this.clipper);
+        this.clipper.connect(this.limiterWet);
+        this.limiterWet.connect(this.output);
+        compressorOut.connect(this.limiterDry);
+        this.limiterDry.connect(this.output);
+        this.output.connect(destination);
+
+        this.apply(DEFAULT_MASTER_BUS);
+    }
+
+    apply(settings: MasterBusSettings) {
+        this.settings = settings;
+        const now = this.context.currentTime;
+        const set = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, SMOOTHING);
+        const { reverb, delay, compressor, limiter } = settings;
+
+        const impulseLength = Math.min(reverb.decay, this.maxReverbLength);
+        if (impulseLength !== this.impulseLength) {
+            this.impulseLength = impulseLength;
+            this.convolver.buffer = generateImpulse(this.context, impulseLength);
+        }
+        set(this.reverbSend.gain, reverb.mix);
+        set(this.reverbReturn.gain, reverb.enabled ? 1 : 0);
+
+        set(this.delaySend.gain, delay.mix);
+        set(this.delayFeedback.gain, Math.min(0.9, Math.max(0, delay.feedback)));
+        set(this.delayReturn.gain, delay.enabled ? 1 : 0);
+        this.setTempo(this.beatDuration * 4, now);
+
+        set(this.compressor.threshold, compressor.threshold);
+        set(this.compressor.ratio, compressor.ratio);
+        set(this.compressorWet.gain, compressor.enabled ? 1 : 0);
+        set(this.compressorDry.gain, compressor.enabled ? 0 : 1);
+
+        set(this.limiter.threshold, limiter.ceiling);
+        this.clipper.curve = clipCurve(dbToGain(limiter.ceiling));
+        set(this.limiterWet.gain, limiter.enabled ? 1 : 0);
+        set(this.limiterDry.gain, limiter.enabled ? 0 : 1);
+    }
+
+    // A shorter impulse response cuts the reverb tail; the clipper can do without oversampling.
+    setQuality(maxReverbLength: number, oversample: OverSampleType) {
+        this.maxReverbLength = maxReverbLength;
+        this.clipper.oversample = oversample;
+        this.apply(this.settings);
+    }
+
+    // Locks the delay to the tempo of the bar that starts at `time`, so it follows tempo ramps.
+    setTempo(barDuration: number, time: number) {
+        this.beatDuration = barDuration / 4;
+        const delayTime = Math.min(MAX_DELAY_TIME, this.beatDuration * DELAY_DIVISIONS[this.settings.delay.division]);
+        const at = Math.max(time, this.context.currentTime);
+        this.delayLeft.delayTime.setTargetAtTime(delayTime, at, SMOOTHING);
+        this.delayRight.delayTime.setTargetAtTime(delayTime, at, SMOOTHING);
+    }
+}
@@ -0,0 +1,123 @@
+import type { Note, MelodyInstrument, VoiceUsage } from "@/types/music";
+import { getPresetParams } from "./presets";
+
+// What the manager knows of a voice: the last note given to it and when that note is heard.
+type Voice = {
+    node: AudioWorkletNode;
+    noteId: number | null;
+    start: number; // context time of the note-on
+    end: number; // note-off
+    silent: number; // end of the release tail
+};
+
+export class MelodySynthManager {
+    private audioContext: BaseAudioContext;
+    private outputNode: AudioNode;
+    private voices: Voice[] = [];
+    private numVoices: number; // how many of the voices take new notes
+    private maxRelease = Infinity;
+    private instrument: MelodyInstrument = 'synth';
+    public isInitialized = false;
+    private noteCounter = 0;
+    private peak = 0;
+    private stolen = 0;
+
+    constructor(audioContext: BaseAudioContext, destination: AudioNode, numVoices: number) {
+        this.audioContext = audioContext;
+        this.outputNode = destination;
+        this.numVoices = numVoices;
+    }
+
+    async init() {
+        if (this.isInitialized) return;
+        await this.audioContext.audioWorklet.addModule('/worklets/synth-processor.js');
+        this.voices = Array.from({ length: this.numVoices }, () => this.createVoice());
+        this.isInitialized = true;
+    }
+
+    private createVoice(): Voice {
+        const node = new AudioWorkletNode(this.audioContext, 'synth-processor');
+        node.connect(this.outputNode);
+        return { node, noteId: null, start: 0, end: 0, silent: 0 };
+    }
+
+    // Polyphony follows the performance profile. Voices past the limit are given no new notes
+    // and just finish what they are playing.
+    public setVoiceLimit(limit: number) {
+        this.numVoices = limit;
+        if (!this.isInitialized) return;
+        while (this.voices.length < limit) this.voices.push(this.createVoice());
+    }
+
+    // Long release tails keep voices busy; a lighter profile cuts them short.
+    public setMaxRelease(seconds: number) {
+        this.maxRelease = seconds;
+    }
+
+    public get workletNodes() {
+        return this.voices.map(voice => voice.node);
+    }
+
+    public setPreset(instrumentName: MelodyInstrument) {
+        this.instrument = instrumentName;
+    }
+
+    // Each note takes a voice that is silent by the time it starts. Both of its ends are posted
+    // ahead and played by the voice on the frame they are due; a note-off that arrives after
+    // its voice has been handed on carries an old id and is ignored.
+    public schedule(notes: Note[], startTime: number) {
+        if (!this.isInitialized || this.instrument === 'none') return;
+
+        [...notes].sort((a, b) => a.time - b.time).forEach(note => {
+            const preset = getPresetParams(this.instrument, note);
+            if (!preset) return;
+            const params = { ...preset, release: Math.min(preset.release, this.maxRelease) };
+            const start = startTime + note.time;
+            const voice = this.allocate(start);
+            if (!voice) return;
+
+            voice.noteId = ++this.noteCounter;
+            voice.start = start;
+            voice.end = start + note.duration;
+            voice.silent = voice.end + params.release;
+            voice.node.port.postMessage({ ...params, type: 'noteOn', when: voice.start, id: voice.noteId });
+            voice.node.port.postMessage({ type: 'noteOff', release: params.release, when: voice.end, id: voice.noteId });
+            this.peak = Math.max(this.peak, this.soundingAt(start));
+        });
+    }
+
+    // A voice that is silent at `time`, or else the one to steal: the quietest - the note
+    // furthest into its release - or, when every voice is still held, the oldest. The worklet
+    // fades a stolen voice out quickly before it starts the new note.
+    private allocate(time: number): Voice | undefined {
+        const voices = this.voices.slice(0, this.numVoices);
+        const free = voices.find(voice => voice.silent <= time);
+        if (free) return free;
+
+        this.stolen++;
+        const releasing = voices.filter(voice => voice.end <= time);
+        if (releasing.length > 0) return releasing.reduce((a, b) => (b.end < a.end ? b : a));
+        return voices.reduce((a, b) => (b.start < a.start ? b : a), voices[0]);
+    }
+
+    private soundingAt(time: number) {
+        return this.voices.filter(voice => voice.start <= time && time < voice.silent).length;
+    }
+
+    public getUsage(): VoiceUsage {
+        return {
+            voices: this.numVoices,
+            active: this.soundingAt(this.audioContext.currentTime),
+            peak: this.peak,
+            stolen: this.stolen,
+        };
+    }
+
+    public allNotesOff() {
+        this.voices.forEach(voice => {
+            voice.node.port.postMessage({ type: 'allNotesOff' });
+            voice.noteId = null;
+            voice.start = voice.end = voice.silent = 0;
+        });
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * Standard MIDI File (Type 1) export of a recorded session.
+ *
+ * Track 0 carries the tempo map (one tempo per bar, so ramps survive), followed by one track
+ * per part: bass, melody and accompaniment on their own channels and the drums on channel 10,
+ * mapped to General MIDI percussion. Bars are laid end to end in 4/4.
+ */
+import type { DrumHit, DrumRole, Note, RecordedBar } from '@/types/music';
+
+const PPQ = 480; // ticks per quarter note
+const TICKS_PER_BAR = PPQ * 4;
+const DRUM_CHANNEL = 9;
+const DRUM_HIT_TICKS = PPQ / 4;
+
+// Drum roles to General MIDI percussion keys; the kit in use does not matter here.
+const GM_DRUMS: Record<DrumRole, number> = {
+    kick: 36,    // Bass Drum 1
+    snare: 38,   // Acoustic Snare
+    hat: 42,     // Closed Hi-Hat
+    openHat: 46, // Open Hi-Hat
+    crash: 49,   // Crash Cymbal 1
+    tomLow: 45,  // Low Tom
+    tomMid: 47,  // Low-Mid Tom
+    tomHigh: 50, // High Tom
+    perc: 39,
+};
+
+// The percussion variants spread over the GM hand percussion.
+const GM_PERCUSSION = [39, 54, 56, 60, 61, 62, 63, 64, 69, 70, 75, 76, 77, 80, 81];
+
+const gmDrumKey = (hit: DrumHit) =>
+    hit.role === 'perc' ? GM_PERCUSSION[(hit.variant ?? 0) % GM_PERCUSSION.length] : GM_DRUMS[hit.role];
+
+type Part = 'bass' | 'melody' | 'accompaniment';
+
+// General MIDI programs that come closest to the built-in synths.
+const PART_TRACKS: { part: Part; name: string; channel: number; program: number }[] = [
+    { part: 'bass', name: 'Bass', channel: 0, program: 38 },             // Synth Bass 1
+    { part: 'melody', name: 'Melody', channel: 1, program: 81 },         // Lead 2 (sawtooth)
+    { part: 'accompaniment', name: 'Accompaniment', channel: 2, program: 89 }, // Pad 2 (warm)
+];
+
+type MidiEvent = {
+    tick: number;
+    data: number[];
+    order: number; // Note-offs sort before note-ons on the same tick.
+};
+
+function variableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    value >>= 7;
+    while (value > 0) {
+        bytes.unshift((value & 0x7f) | 0x80);
+        value >>= 7;
+    }
+    return bytes;
+}
+
+const textEvent = (type: number, text: string) => {
+    const bytes = Array.from(text, char => char.charCodeAt(0) & 0x7f);
+    return [0xff, type, ...variableLength(bytes.length), ...bytes];
+};
+
+const midiVelocity = (velocity = 0.6) => Math.max(1, Math.min(127, Math.round(velocity * 127)));
+
+function trackChunk(name: string, events: MidiEvent[]): number[] {
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+    const body: number[] = [0, ...textEvent(0x03, name)];
+    let lastTick = 0;
+    sorted.forEach(event => {
+        body.push(...variableLength(event.tick - lastTick), ...event.data);
+        lastTick = event.tick;
+    });
+    body.push(0, 0xff, 0x2f, 0x00); // End of track
+
+    const length = body.length;
+    return [0x4d, 0x54, 0x72, 0x6b, (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...body];
+}
+
+function tempoTrack(bars: RecordedBar[]): MidiEvent[] {
+    const events: MidiEvent[] = [{ tick: 0, data: [0xff, 0x58, 0x04, 4, 2, 24, 8], order: 0 }]; // 4/4
+    let lastTempo = -1;
+    bars.forEach((bar, i) => {
+        const microsPerQuarter = Math.round(bar.barDuration / 4 * 1_000_000);
+        if (microsPerQuarter === lastTempo) return;
+        lastTempo = microsPerQuarter;
+        events.push({
+            tick: i * TICKS_PER_BAR,
+            data: [0xff, 0x51, 0x03, (microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff],
+            order: 0,
+        });
+    });
+    return events;
+}
+
+// Seconds inside a bar to ticks from the start of the piece.
+const toTick = (barNumber: number, time: number, barDuration: number) =>
+    barNumber * TICKS_PER_BAR + Math.round(time / barDuration * TICKS_PER_BAR);
+
+function noteEvents(bars: RecordedBar[], part: Part, channel: number, program: number): MidiEvent[] {
+    const events: MidiEvent[] = [{ tick: 0, data: [0xc0 | channel, program], order: 0 }];
+    bars.forEach((bar, i) => {
+        (bar.score[part] ?? []).forEach((note: Note) => {
+            const midi = Math.max(0, Math.min(127, Math.round(note.midi)));
+            const start = toTick(i, note.time, bar.barDuration);
+            const end = Math.max(start + 1, toTick(i, note.time + note.duration, bar.barDuration));
+            events.push({ tick: start, data: [0x90 | channel, midi, midiVelocity(note.velocity)], order: 2 });
+            events.push({ tick: end, data: [0x80 | channel, midi, 0], order: 1 });
+        });
+    });
+    return events;
+}
+
+function drumEvents(bars: RecordedBar[]): MidiEvent[] {
+    const events: MidiEvent[] = [];
+    bars.forEach((bar, i) => {
+        (bar.score.drums ?? []).forEach(hit => {
+            const key = gmDrumKey(hit);
+            if (key === undefined) return;
+            const start = toTick(i, hit.time, bar.barDuration);
+            events.push({ tick: start, data: [0x90 | DRUM_CHANNEL, key, midiVelocity(hit.velocity)], order: 2 });
+            events.push({ tick: start + DRUM_HIT_TICKS, data: [0x80 | DRUM_CHANNEL, key, 0], order: 1 });
+        });
+    });
+    return events;
+}
+
+export function encodeMidi(bars: RecordedBar[], title = 'AuraGroove'): Blob {
+    const tracks: number[][] = [trackChunk(title, tempoTrack(bars))];
+    PART_TRACKS.forEach(({ part, name, channel, program }) => {
+        if (bars.some(bar => (bar.score[part]?.length ?? 0) > 0)) {
+            tracks.push(trackChunk(name, noteEvents(bars, part, channel, program)));
+        }
+    });
+    if (bars.some(bar => (bar.score.drums?.length ?? 0) > 0)) {
+        tracks.push(trackChunk('Drums', drumEvents(bars)));
+    }
+
+    const header = [
+        0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, // "MThd", header length
+        0, 1,                               // Type 1
+        (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+        (PPQ >> 8) & 0xff, PPQ & 0xff,
+    ];
+    return new Blob([new Uint8Array([...header, ...tracks.flat()])], { type: 'audio/midi' });
+}
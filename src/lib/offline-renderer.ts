@@ -0,0 +1,136 @@
+/**
+ * Offline rendering: plays the current settings and seed into an OfflineAudioContext.
+ *
+ * A private instance of the ambient worker composes the bars, and the same audio graph as
+ * live playback (./audio-graph) plays them. The context is suspended at every point where
+ * the live engine would ask for a bar, which goes to the instruments as soon as it arrives, so
+ * the file sounds like a live session with the same seed, only rendered as fast as the machine
+ * allows.
+ * The worklets play their notes on the frame each is due, so nothing else needs a stop.
+ * Polyphony, effect quality and lookahead come from the performance profile in use live.
+ */
+import type { ChannelSettings, InstrumentPart, MasterBusSettings, MixerPart, PerformanceProfile, WorkerMessage, WorkerSettings } from '@/types/music';
+import { createMixer, createInstruments, initInstruments, scheduleScore, balancedVolume, applyChannel, START_DELAY, MIN_LOOKAHEAD } from './audio-graph';
+import { DEFAULT_DRUM_KIT } from './drum-kits';
+import { PROFILES } from './performance-monitor';
+
+export type RenderOptions = {
+    settings: WorkerSettings;
+    duration: number; // seconds
+    volumes: Partial<Record<InstrumentPart, number>>; // Slider values, 0-1.
+    channels: Record<MixerPart, ChannelSettings>;
+    textureVolumes: { sparkles: number; pads: number };
+    eq: number[]; // dB per band
+    masterBus: MasterBusSettings;
+    profile: PerformanceProfile;
+    onProgress?: (progress: number) => void; // 0-1
+};
+
+const SAMPLE_RATE = 44100;
+const CHANNELS = 2;
+const RENDER_QUANTUM = 128; // frames; the context can only suspend on these boundaries
+const FADE_OUT = 3; // seconds at the end of the file
+const PROGRESS_INTERVAL = 2; // seconds of audio between progress reports
+
+export async function renderOffline({ settings, duration, volumes, textureVolumes, channels, eq, masterBus, profile, onProgress }: RenderOptions): Promise<AudioBuffer> {
+    const quality = PROFILES[profile];
+    const context = new OfflineAudioContext(CHANNELS, Math.ceil(duration * SAMPLE_RATE), SAMPLE_RATE);
+    const end = context.length / SAMPLE_RATE;
+
+    const mixer = createMixer(context, context.destination);
+    (Object.entries(volumes) as [InstrumentPart, number][]).forEach(([part, volume]) => {
+        mixer.parts[part].gain.value = balancedVolume(part, volume);
+    });
+    (Object.entries(channels) as [MixerPart, ChannelSettings][]).forEach(([part, channel]) => {
+        applyChannel(mixer.channels[part], channel, 0);
+    });
+    eq.forEach((gain, i) => {
+        if (mixer.eq[i]) mixer.eq[i].gain.value = gain;
+    });
+    mixer.bus.setQuality(quality.reverbLength, quality.oversample);
+    mixer.bus.apply(masterBus);
+    mixer.master.gain.setValueAtTime(1, Math.max(0, end - FADE_OUT));
+    mixer.master.gain.linearRampToValueAtTime(0, end);
+
+    const instruments = createInstruments(context, mixer, quality.melodyVoices);
+    await initInstruments(instruments);
+    instruments.melody.setMaxRelease(quality.maxRelease);
+    const { bass, melody, accompaniment } = settings.instrumentSettings;
+    instruments.bass.setPreset(bass.name);
+    instruments.bass.setTechnique(bass.technique);
+    instruments.melody.setPreset(melody.name);
+    instruments.accompaniment.setPreset(accompaniment.name);
+    await instruments.drums.setKit(settings.drumSettings.kit ?? DEFAULT_DRUM_KIT);
+    instruments.sparkles.setVolume(textureVolumes.sparkles);
+    instruments.pads.setVolume(textureVolumes.pads);
+
+    const worker = new Worker(new URL('./ambient.worker.ts', import.meta.url), { type: 'module' });
+    let fail: (error: Error) => void = () => {};
+    const failed = new Promise<never>((_, reject) => { fail = reject; });
+    let onBar: ((message: WorkerMessage) => void) | null = null;
+    const padLoads = new Set<Promise<void>>();
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        const { type, time = 0 } = event.data;
+        if (type === 'score') onBar?.(event.data);
+        else if (type === 'sparkle') instruments.sparkles.playSparkle(time, event.data.variant ?? 0);
+        else if (type === 'pad' && event.data.padName) {
+            const load = instruments.pads.setPad(event.data.padName, time).finally(() => padLoads.delete(load));
+            padLoads.add(load);
+        }
+        else if (type === 'error') fail(new Error(event.data.error));
+    };
+
+    // Sparkles and pads for a bar arrive before its score, so they are in hand once this resolves.
+    const requestBar = (time: number) => Promise.race([
+        new Promise<WorkerMessage>(resolve => {
+            onBar = resolve;
+            worker.postMessage({ command: 'tick', data: { time } });
+        }),
+        failed,
+    ]);
+
+    let nextBarTime = START_DELAY;
+    let barDuration = (60 / settings.bpm) * 4;
+    const lookahead = () => Math.max(barDuration * quality.lookaheadBars, MIN_LOOKAHEAD);
+
+    // Does what the live scheduler would have done by `now`; returns the time to stop at next.
+    const step = async (now: number) => {
+        while (nextBarTime < end && nextBarTime - now < lookahead()) {
+            const reply = await requestBar(nextBarTime);
+            if (reply.barDuration) barDuration = reply.barDuration;
+            scheduleScore(instruments, reply.score ?? {}, nextBarTime, settings);
+            mixer.bus.setTempo(barDuration, nextBarTime);
+            instruments.bass.setTempo(barDuration, nextBarTime);
+            nextBarTime += barDuration;
+        }
+        await Promise.all(padLoads);
+        onProgress?.(now / end);
+
+        const stops = [now + PROGRESS_INTERVAL, nextBarTime - lookahead()];
+        const nowFrame = Math.round(now * SAMPLE_RATE);
+        const nextFrame = Math.max(
+            nowFrame + RENDER_QUANTUM,
+            Math.ceil(Math.min(...stops) * SAMPLE_RATE / RENDER_QUANTUM) * RENDER_QUANTUM,
+        );
+        // Aim at the middle of the quantum so rounding cannot land on the one we are in.
+        return (nextFrame + RENDER_QUANTUM / 2) / SAMPLE_RATE;
+    };
+
+    const advance = async (now: number) => {
+        const next = await step(now);
+        if (next >= end) return;
+        context.suspend(next).then(() => advance(context.currentTime)).then(() => context.resume()).catch(fail);
+    };
+
+    try {
+        worker.postMessage({ command: 'update_settings', data: settings });
+        worker.postMessage({ command: 'start' });
+        await advance(0);
+        const buffer = await Promise.race([context.startRendering(), failed]);
+        onProgress?.(1);
+        return buffer;
+    } finally {
+        worker.terminate();
+    }
+}
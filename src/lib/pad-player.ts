@@ -36,17 +36,19 @@ const PAD_SAMPLES: Record<string, string> = {
 };
 
 export class PadPlayer {
-    private audioContext: AudioContext;
+    private audioContext: BaseAudioContext;
     private gainA: GainNode;
     private gainB: GainNode;
     private masterGain: GainNode;
     private sourceA: AudioBufferSourceNode | null = null;
     private sourceB: AudioBufferSourceNode | null = null;
     private buffers: Map<string, AudioBuffer> = new Map();
+    private loading: Map<string, Promise<AudioBuffer>> = new Map();
+    private preloading = false;
     private activeGain: 'A' | 'B' = 'A';
     public isInitialized = false;
 
-    constructor(audioContext: AudioContext, destination: AudioNode) {
+    constructor(audioContext: BaseAudioContext, destination: AudioNode) {
         this.audioContext = audioContext;
         this.masterGain = this.audioContext.createGain();
         this.masterGain.connect(destination);
@@ -79,6 +81,40 @@ export class PadPlayer {
         }
     }
     
+    // A pad's buffer, fetched the first time anything asks for it.
+    private getBuffer(padName: string): Promise<AudioBuffer> {
+        const cached = this.buffers.get(padName);
+        if (cached) return Promise.resolve(cached);
+        let loading = this.loading.get(padName);
+        if (!loading) {
+            loading = this.loadBuffer(PAD_SAMPLES[padName])
+                .then(buffer => {
+                    this.buffers.set(padName, buffer);
+                    return buffer;
+                })
+                .finally(() => this.loading.delete(padName));
+            this.loading.set(padName, loading);
+        }
+        return loading;
+    }
+
+    // Pads normally load on first use. With preloading on, the rest are fetched one after
+    // another in the background, so a pad change never waits on the network.
+    public async setPreload(preload: boolean) {
+        const alreadyPreloading = this.preloading;
+        this.preloading = preload;
+        if (!preload || alreadyPreloading) return;
+        for (const padName of Object.keys(PAD_SAMPLES)) {
+            if (!this.preloading) return;
+            try {
+                await this.getBuffer(padName);
+            } catch (e) {
+                // Already logged; this pad will be tried again when it is played.
+            }
+        }
+        this.preloading = false;
+    }
+
     private play(buffer: AudioBuffer, gainNode: GainNode): AudioBufferSourceNode {
         const source = this.audioContext.createBufferSource();
         source.buffer = buffer;
@@ -91,19 +127,15 @@ export class PadPlayer {
     public async setPad(padName: string, time: number) {
         if (!this.isInitialized) return;
 
-        let buffer = this.buffers.get(padName);
-        if (!buffer) {
-            const url = PAD_SAMPLES[padName];
-            if (!url) {
-                 console.warn(`[PadPlayer] Pad sample not found in library: ${padName}`);
-                 return;
-            }
-            try {
-                buffer = await this.loadBuffer(url);
-                this.buffers.set(padName, buffer);
-            } catch (e) {
-                return; // Don't proceed if loading failed
-            }
+        if (!PAD_SAMPLES[padName]) {
+             console.warn(`[PadPlayer] Pad sample not found in library: ${padName}`);
+             return;
+        }
+        let buffer: AudioBuffer;
+        try {
+            buffer = await this.getBuffer(padName);
+        } catch (e) {
+            return; // Don't proceed if loading failed
         }
         
         const fadeDuration = 5; // 5 second crossfade
@@ -0,0 +1,151 @@
+/**
+ * Adaptive performance: measures how much headroom the audio thread has and picks a profile -
+ * Low, Balanced or High - that sets the melody polyphony, the effect quality, whether pads
+ * are preloaded and how far ahead the scheduler works.
+ *
+ * Two things are measured. The worklets report how long their process() calls take (see
+ * public/worklets/load-meter.js), which gives the share of the audio thread they use. Output
+ * underruns show up as the AudioContext clock falling behind the wall clock for several samples
+ * in a row, and a bar that reaches the instruments after it should have started counts as one
+ * too. Trouble of either kind steps the profile down at the next evaluation; it only steps up
+ * again after a long calm stretch, so it does not flip back and forth.
+ */
+import type { PerformanceMode, PerformanceProfile, PerformanceStatus, VoiceUsage } from '@/types/music';
+
+export type ProfileSettings = {
+    melodyVoices: number;
+    maxRelease: number; // seconds a melody note may ring on after its note-off
+    reverbLength: number; // seconds of reverb impulse response, at most
+    oversample: OverSampleType; // for the limiter's clipper
+    preloadPads: boolean; // fetch every pad up front instead of on first use
+    lookaheadBars: number; // how much composed music the scheduler keeps queued
+};
+
+export const PROFILES: Record<PerformanceProfile, ProfileSettings> = {
+    low: { melodyVoices: 4, maxRelease: 2, reverbLength: 2.5, oversample: 'none', preloadPads: false, lookaheadBars: 3 },
+    balanced: { melodyVoices: 6, maxRelease: 4, reverbLength: 6, oversample: '2x', preloadPads: false, lookaheadBars: 2 },
+    high: { melodyVoices: 8, maxRelease: 4, reverbLength: 12, oversample: '4x', preloadPads: true, lookaheadBars: 2 },
+};
+
+const PROFILE_ORDER: PerformanceProfile[] = ['low', 'balanced', 'high'];
+export const PERFORMANCE_MODES: PerformanceMode[] = ['auto', ...PROFILE_ORDER];
+
+const EVALUATE_INTERVAL = 5; // seconds between decisions
+const CALM_PERIOD = 30; // seconds without trouble before stepping up
+const REPORT_TIMEOUT = 3; // seconds after which a worklet's last report no longer counts
+const UNDERRUN_GAP = 0.025; // seconds the audio clock may lag the wall clock between samples, on top of the output latency
+const UNDERRUN_STREAK = 3; // samples in a row that must lag before it counts as an underrun
+const HIGH_LOAD = 0.6;
+const LOW_LOAD = 0.25;
+
+type LoadReport = {
+    load: number;
+    at: number; // wall-clock seconds
+};
+
+const wallClock = () => performance.now() / 1000;
+
+export class PerformanceMonitor {
+    private context: BaseAudioContext;
+    private watched = new WeakSet<AudioWorkletNode>();
+    private reports = new Map<AudioWorkletNode, LoadReport>();
+    private lastSample: { wall: number; audio: number } | null = null;
+    private laggingSamples = 0; // in a row
+    private underruns = 0;
+    private recentUnderruns = 0; // since the last evaluation
+    private evaluatedAt = wallClock();
+    private calmSince = wallClock();
+
+    constructor(context: BaseAudioContext) {
+        this.context = context;
+    }
+
+    // Listens for the load reports of these nodes; nodes already watched are skipped.
+    watch(nodes: AudioWorkletNode[]) {
+        nodes.forEach(node => {
+            if (this.watched.has(node)) return;
+            this.watched.add(node);
+            node.port.addEventListener('message', (event: MessageEvent) => {
+                const { type, busy, span } = event.data ?? {};
+                if (type === 'load' && span > 0) this.reports.set(node, { load: busy / span, at: wallClock() });
+            });
+            node.port.start();
+        });
+    }
+
+    // The worklets' combined share of the audio thread; they run one after another.
+    get load() {
+        const now = wallClock();
+        let load = 0;
+        this.reports.forEach((report, node) => {
+            if (now - report.at > REPORT_TIMEOUT) this.reports.delete(node);
+            else load += report.load;
+        });
+        return load;
+    }
+
+    // Starts over, so that time spent stopped does not read as an underrun.
+    reset() {
+        this.lastSample = null;
+        this.laggingSamples = 0;
+        this.underruns = 0;
+        this.recentUnderruns = 0;
+        this.evaluatedAt = wallClock();
+        this.calmSince = wallClock();
+    }
+
+    // How far the audio clock may fall behind between two samples. The clock moves a whole
+    // output buffer at a time, so on a device with a large buffer a single lag is no underrun.
+    private get underrunGap() {
+        if (!(this.context instanceof AudioContext)) return UNDERRUN_GAP;
+        return UNDERRUN_GAP + (this.context.baseLatency ?? 0) + (this.context.outputLatency ?? 0);
+    }
+
+    // Called regularly while playing: compares how far the audio clock and the wall clock moved.
+    // Only a clock that keeps lagging for UNDERRUN_STREAK samples counts as an underrun.
+    sample() {
+        if (this.context instanceof AudioContext && this.context.state !== 'running') {
+            this.lastSample = null;
+            this.laggingSamples = 0;
+            return;
+        }
+        const sample = { wall: wallClock(), audio: this.context.currentTime };
+        if (this.lastSample) {
+            const lag = (sample.wall - this.lastSample.wall) - (sample.audio - this.lastSample.audio);
+            this.laggingSamples = lag > this.underrunGap ? this.laggingSamples + 1 : 0;
+            if (this.laggingSamples === UNDERRUN_STREAK) this.reportUnderrun();
+        }
+        this.lastSample = sample;
+    }
+
+    reportUnderrun() {
+        this.underruns++;
+        this.recentUnderruns++;
+    }
+
+    // The profile to use from now on, given the one in use. Decides at most every
+    // EVALUATE_INTERVAL; in between it returns `current`.
+    recommend(current: PerformanceProfile): PerformanceProfile {
+        const now = wallClock();
+        if (now - this.evaluatedAt < EVALUATE_INTERVAL) return current;
+        const load = this.load;
+        const troubled = this.recentUnderruns > 0 || load > HIGH_LOAD;
+        this.evaluatedAt = now;
+        this.recentUnderruns = 0;
+
+        const index = PROFILE_ORDER.indexOf(current);
+        if (troubled) {
+            this.calmSince = now;
+            return PROFILE_ORDER[Math.max(0, index - 1)];
+        }
+        if (load < LOW_LOAD && now - this.calmSince >= CALM_PERIOD) {
+            this.calmSince = now;
+            return PROFILE_ORDER[Math.min(PROFILE_ORDER.length - 1, index + 1)];
+        }
+        return current;
+    }
+
+    status(mode: PerformanceMode, profile: PerformanceProfile, melodyVoices: VoiceUsage | null): PerformanceStatus {
+        return { mode, profile, load: this.load, underruns: this.underruns, melodyVoices };
+    }
+}
@@ -1,11 +1,6 @@
 
 import type { Note, MelodyInstrument } from "@/types/music";
 
-const isMobile = () => {
-    if (typeof window === 'undefined') return false;
-    return /Android|iPhone|iPad|iPod|WebOS|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-};
-
 type PresetParams = {
     type: 'noteOn';
     frequency: number;
@@ -54,7 +49,7 @@ const PRESETS: Record<MelodyInstrument, Omit<PresetParams, 'type' | 'frequency'
     },
      portamento: { // Bass instrument
         attack: 0.1,
-        release: isMobile() ? 2.0 : 4.0,
+        release: 4.0, // The performance profile may cut it shorter.
         portamento: 0.05,
         filterCutoff: 1000,
         q: 1,
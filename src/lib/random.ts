@@ -0,0 +1,36 @@
+// A small seedable PRNG (mulberry32). The worker draws every random decision from one
+// of these, so the same seed and settings always compose the same bar-by-bar score.
+export type Rng = {
+    readonly seed: number;
+    next: () => number;                    // Uniform float in [0, 1).
+    int: (maxExclusive: number) => number; // Uniform integer in [0, maxExclusive).
+    chance: (probability: number) => boolean;
+    pick: <T>(items: readonly T[]) => T;
+};
+
+export const MAX_SEED = 0xffffffff;
+
+export const normalizeSeed = (seed: number) => (Math.floor(Math.abs(seed)) % (MAX_SEED + 1)) >>> 0;
+
+export function createRng(seed: number): Rng {
+    const normalized = normalizeSeed(seed);
+    let state = normalized;
+
+    const next = () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    return {
+        seed: normalized,
+        next,
+        int: (maxExclusive) => Math.floor(next() * maxExclusive),
+        chance: (probability) => next() < probability,
+        pick: (items) => items[Math.floor(next() * items.length)],
+    };
+}
+
+// Fresh seed for a new session. This is the only place that is allowed to use Math.random.
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) >>> 0;
@@ -0,0 +1,41 @@
+import type { ScaleMode } from '@/types/music';
+
+// Semitone offsets from the tonic for every mode the composers understand.
+export const SCALES: Record<ScaleMode, number[]> = {
+    ionian: [0, 2, 4, 5, 7, 9, 11],
+    dorian: [0, 2, 3, 5, 7, 9, 10],
+    phrygian: [0, 1, 3, 5, 7, 8, 10],
+    lydian: [0, 2, 4, 6, 7, 9, 11],
+    mixolydian: [0, 2, 4, 5, 7, 9, 10],
+    aeolian: [0, 2, 3, 5, 7, 8, 10],
+    locrian: [0, 1, 3, 5, 6, 8, 10],
+    harmonicMinor: [0, 2, 3, 5, 7, 8, 11],
+    melodicMinor: [0, 2, 3, 5, 7, 9, 11],
+    majorPentatonic: [0, 2, 4, 7, 9],
+    minorPentatonic: [0, 3, 5, 7, 10],
+    wholeTone: [0, 2, 4, 6, 8, 10],
+};
+
+export const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+    ionian: 'Ionian (Major)',
+    dorian: 'Dorian',
+    phrygian: 'Phrygian',
+    lydian: 'Lydian',
+    mixolydian: 'Mixolydian',
+    aeolian: 'Aeolian (Minor)',
+    locrian: 'Locrian',
+    harmonicMinor: 'Harmonic Minor',
+    melodicMinor: 'Melodic Minor',
+    majorPentatonic: 'Major Pentatonic',
+    minorPentatonic: 'Minor Pentatonic',
+    wholeTone: 'Whole Tone',
+};
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// MIDI note of the tonic in the bass register. Keys up to G sit at C2-G2 (E -> 40, E2),
+// higher ones drop an octave so the bass never climbs out of its range.
+export const getRootMidi = (pitchClass: number) => {
+    const pc = ((Math.round(pitchClass) % 12) + 12) % 12;
+    return pc <= 7 ? 36 + pc : 24 + pc;
+};
@@ -0,0 +1,75 @@
+/**
+ * Morphing between two scenes with a crossfader position from 0 (scene A) to 1 (scene B).
+ *
+ * Continuous values - tempo, density, motif recurrence, the part volumes, pans and sends, the
+ * EQ, and the master bus levels (reverb and delay mix, delay feedback, compressor threshold and
+ * ratio, limiter ceiling) - are interpolated. Everything else (style, key, seed, instruments,
+ * bass technique, drum pattern, textures on/off, auto-pan, evolution, the effects on/off, the
+ * delay division and the reverb decay, whose impulse response is rebuilt on every change)
+ * cannot be blended, so it is taken whole from one side; the caller decides when that side
+ * changes hands, normally at the start of a phrase.
+ */
+import type { SceneState } from '@/types/music';
+
+export type MorphSide = 'from' | 'to';
+
+// The side whose discrete settings belong to a crossfader position.
+export const morphSide = (position: number): MorphSide => position < 0.5 ? 'from' : 'to';
+
+// Values are rounded so that a slow morph does not flood the engine with imperceptible changes.
+function mix(a: number | undefined, b: number | undefined, position: number, step: number): number {
+    const from = a ?? b ?? 0;
+    const to = b ?? from;
+    return Math.round((from + (to - from) * position) / step) * step;
+}
+
+export function morphSceneState(from: SceneState, to: SceneState, position: number, side: MorphSide): SceneState {
+    const t = Math.max(0, Math.min(1, position));
+    const base = side === 'from' ? from : to;
+    const volumes = { ...base.volumes };
+    (Object.keys(volumes) as (keyof SceneState['volumes'])[]).forEach(part => {
+        volumes[part] = mix(from.volumes[part], to.volumes[part], t, 0.01);
+    });
+    const channels = { ...base.channels };
+    (Object.keys(channels) as (keyof SceneState['channels'])[]).forEach(part => {
+        const a = from.channels?.[part];
+        const b = to.channels?.[part];
+        channels[part] = {
+            ...channels[part],
+            pan: mix(a?.pan, b?.pan, t, 0.01),
+            reverbSend: mix(a?.reverbSend, b?.reverbSend, t, 0.01),
+            delaySend: mix(a?.delaySend, b?.delaySend, t, 0.01),
+        };
+    });
+
+    const busA = from.masterBus;
+    const busB = to.masterBus;
+    const masterBus: SceneState['masterBus'] = base.masterBus && {
+        reverb: { ...base.masterBus.reverb, mix: mix(busA?.reverb.mix, busB?.reverb.mix, t, 0.01) },
+        delay: {
+            ...base.masterBus.delay,
+            mix: mix(busA?.delay.mix, busB?.delay.mix, t, 0.01),
+            feedback: mix(busA?.delay.feedback, busB?.delay.feedback, t, 0.01),
+        },
+        compressor: {
+            ...base.masterBus.compressor,
+            threshold: mix(busA?.compressor.threshold, busB?.compressor.threshold, t, 0.5),
+            ratio: mix(busA?.compressor.ratio, busB?.compressor.ratio, t, 0.1),
+        },
+        limiter: { ...base.masterBus.limiter, ceiling: mix(busA?.limiter.ceiling, busB?.limiter.ceiling, t, 0.1) },
+    };
+
+    return {
+        ...base,
+        settings: {
+            ...base.settings,
+            bpm: mix(from.settings.bpm, to.settings.bpm, t, 1),
+            density: mix(from.settings.density, to.settings.density, t, 0.01),
+            motifRecurrence: mix(from.settings.motifRecurrence, to.settings.motifRecurrence, t, 0.01),
+        },
+        volumes,
+        channels,
+        eq: base.eq.map((_, band) => mix(from.eq[band], to.eq[band], t, 0.1)),
+        masterBus,
+    };
+}
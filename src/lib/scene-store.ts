@@ -0,0 +1,98 @@
+/**
+ * Scenes: named presets of the whole composition and mixer state, kept in localStorage.
+ *
+ * Everything is stored with a schema version. Data from an unknown (newer) version is left
+ * alone rather than misread, and fields a scene does not have yet fall back to the current
+ * state when it is applied, so scenes saved before a setting existed keep working.
+ */
+import type { PerformanceMode, Scene, SceneState } from '@/types/music';
+import { PERFORMANCE_MODES } from './performance-monitor';
+
+export const SCENE_VERSION = 1;
+
+const SCENES_KEY = 'auragroove.scenes';
+const LAST_STATE_KEY = 'auragroove.lastState';
+const PERFORMANCE_KEY = 'auragroove.performance';
+
+type Stored<T> = {
+    version: number;
+    data: T;
+};
+
+function read<T>(key: string): T | null {
+    if (typeof window === 'undefined') return null;
+    try {
+        const raw = window.localStorage.getItem(key);
+        if (!raw) return null;
+        const stored = JSON.parse(raw) as Stored<T>;
+        if (stored?.version !== SCENE_VERSION) {
+            console.warn(`[SceneStore] Ignoring ${key} with schema version ${stored?.version}.`);
+            return null;
+        }
+        return stored.data;
+    } catch (e) {
+        console.error(`[SceneStore] Could not read ${key}:`, e);
+        return null;
+    }
+}
+
+function write<T>(key: string, data: T) {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(key, JSON.stringify({ version: SCENE_VERSION, data } satisfies Stored<T>));
+    } catch (e) {
+        console.error(`[SceneStore] Could not write ${key}:`, e);
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A scene saved before the master bus existed has none; one it has must be complete.
+const isMasterBus = (bus: unknown) =>
+    bus === undefined || (isObject(bus) && ['reverb', 'delay', 'compressor', 'limiter'].every(effect => isObject(bus[effect])));
+
+// The same for the mixer channels: any part's may be missing, but not malformed.
+const isChannels = (channels: unknown) =>
+    channels === undefined || (isObject(channels) && Object.values(channels).every(isObject));
+
+const isSceneState = (state: unknown): state is SceneState =>
+    isObject(state) && isObject(state.settings) && isObject(state.volumes) && Array.isArray(state.eq) &&
+    isMasterBus(state.masterBus) && isChannels(state.channels);
+
+export const loadScenes = (): Scene[] =>
+    (read<Scene[]>(SCENES_KEY) ?? []).filter(scene => typeof scene?.id === 'string' && isSceneState(scene.state));
+
+export const saveScenes = (scenes: Scene[]) => write(SCENES_KEY, scenes);
+
+export function loadLastState(): SceneState | null {
+    const state = read<SceneState>(LAST_STATE_KEY);
+    return isSceneState(state) ? state : null;
+}
+
+export const saveLastState = (state: SceneState) => write(LAST_STATE_KEY, state);
+
+// The performance mode belongs to the device, so it is kept apart from scenes and shared links.
+export function loadPerformanceMode(): PerformanceMode {
+    const mode = read<PerformanceMode>(PERFORMANCE_KEY);
+    return mode && PERFORMANCE_MODES.includes(mode) ? mode : 'auto';
+}
+
+export const savePerformanceMode = (mode: PerformanceMode) => write(PERFORMANCE_KEY, mode);
+
+const newId = () => `${Date.now().toString(36)}-${crypto.getRandomValues(new Uint32Array(1))[0].toString(36)}`;
+
+export const createScene = (name: string, state: SceneState): Scene => ({
+    id: newId(),
+    name,
+    updatedAt: new Date().toISOString(),
+    state,
+});
+
+// "Name" -> "Name (copy)", "Name (copy 2)", ... whichever is free.
+export function duplicateScene(scene: Scene, scenes: Scene[]): Scene {
+    const names = new Set(scenes.map(s => s.name));
+    let name = `${scene.name} (copy)`;
+    for (let n = 2; names.has(name); n++) name = `${scene.name} (copy ${n})`;
+    return createScene(name, scene.state);
+}
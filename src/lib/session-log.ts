@@ -0,0 +1,97 @@
+/**
+ * Session logs: the stream of bars, sparkles, pads and settings changes behind a session,
+ * stored as JSON so a session can be replayed exactly (see `startReplay` in the audio engine).
+ */
+import type { DrumHit, Score, SessionEvent, SessionLog, WorkerSettings } from '@/types/music';
+import { DEFAULT_DRUM_KIT, legacyDrumHit } from './drum-kits';
+
+// Version 2 names drum hits by kit role instead of sampler note, and records the kit.
+export const SESSION_LOG_VERSION = 2;
+
+export const createSessionLog = (settings: WorkerSettings): SessionLog => ({
+    version: SESSION_LOG_VERSION,
+    recordedAt: new Date().toISOString(),
+    settings,
+    events: [],
+});
+
+export const serializeSessionLog = (log: SessionLog) =>
+    new Blob([JSON.stringify(log)], { type: 'application/json' });
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Enough of WorkerSettings for a replay to read: the instruments and the drums.
+const isSettings = (value: unknown): value is WorkerSettings =>
+    isObject(value) && isObject(value.drumSettings) && isObject(value.instrumentSettings) &&
+    (['bass', 'melody', 'accompaniment'] as const).every(part => isObject((value.instrumentSettings as Fields)[part]));
+
+// The event if it has everything a replay reads from it, otherwise null.
+function readEvent(value: unknown): SessionEvent | null {
+    if (!isObject(value) || !isNumber(value.barIndex) || value.barIndex < 0) return null;
+    const { barIndex, offset } = value;
+    switch (value.type) {
+        case 'settings':
+            return isSettings(value.settings) ? { type: 'settings', barIndex, settings: value.settings } : null;
+        case 'sparkle':
+            return isNumber(offset) && isNumber(value.variant) ? { type: 'sparkle', barIndex, offset, variant: value.variant } : null;
+        case 'pad':
+            return isNumber(offset) && typeof value.padName === 'string' ? { type: 'pad', barIndex, offset, padName: value.padName } : null;
+        case 'score':
+            return isNumber(value.barDuration) && value.barDuration > 0 && isObject(value.score)
+                ? { type: 'score', barIndex, barDuration: value.barDuration, score: value.score as Score }
+                : null;
+        default:
+            return null;
+    }
+}
+
+// Reads a log back; events that are damaged or of an unknown kind are left out.
+export function parseSessionLog(text: string): SessionLog {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isObject(data) || !Array.isArray(data.events) || !isSettings(data.settings)) {
+        throw new Error('The file is not an AuraGroove session log.');
+    }
+    if (data.version === 1) data = migrateV1(data);
+    const log = data as Fields & { events: unknown[]; settings: WorkerSettings };
+    if (log.version !== SESSION_LOG_VERSION) {
+        throw new Error(`Unsupported session log version: ${log.version}.`);
+    }
+    const events = log.events.map(readEvent).filter((event): event is SessionEvent => event !== null);
+    if (!events.some(event => event.type === 'score')) {
+        throw new Error('The session log contains no bars.');
+    }
+    return {
+        version: SESSION_LOG_VERSION,
+        recordedAt: typeof log.recordedAt === 'string' ? log.recordedAt : '',
+        settings: log.settings,
+        events,
+    };
+}
+
+// A version 1 log played the standard kit, whose sampler notes map straight onto roles.
+function migrateV1(data: Fields): Fields {
+    const withKit = (settings: unknown) => isObject(settings) && isObject(settings.drumSettings)
+        ? { ...settings, drumSettings: { kit: DEFAULT_DRUM_KIT, ...settings.drumSettings } }
+        : settings;
+    const legacyHit = (hit: unknown): DrumHit | null =>
+        isObject(hit) && typeof hit.note === 'string' && isNumber(hit.time)
+            ? legacyDrumHit({ note: hit.note, time: hit.time, velocity: isNumber(hit.velocity) ? hit.velocity : undefined })
+            : null;
+    const events = (Array.isArray(data.events) ? data.events : []).map((event: unknown) => {
+        if (!isObject(event)) return event;
+        if (event.type === 'settings') return { ...event, settings: withKit(event.settings) };
+        if (event.type !== 'score' || !isObject(event.score) || !Array.isArray(event.score.drums)) return event;
+        const drums = event.score.drums.map(legacyHit).filter((hit): hit is DrumHit => hit !== null);
+        return { ...event, score: { ...event.score, drums } };
+    });
+    return { ...data, version: SESSION_LOG_VERSION, settings: withKit(data.settings), events };
+}
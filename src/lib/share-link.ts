@@ -0,0 +1,144 @@
+/**
+ * Shareable links: the composition and the mix packed into the URL hash of /aura-groove.
+ *
+ * The hash reads `#v=<version>&s=<payload>`, where the payload is a short-keyed JSON object in
+ * base64url. Links are read defensively: an unknown version or an unreadable payload is
+ * rejected as a whole, while a single bad field is ignored and keeps the value it falls back
+ * to, so an old or hand-edited link still opens instead of feeding the engine garbage.
+ */
+import type { AccompanimentInstrument, BassInstrument, BassTechnique, DrumKitName, DrumSettings, MelodyInstrument, ScaleMode, SceneState, ScoreName } from '@/types/music';
+import { SCALES } from './scales';
+import { DEFAULT_DRUM_KIT, DRUM_KIT_NAMES } from './drum-kits';
+import { MAX_SEED } from './random';
+
+export const SHARE_LINK_VERSION = 1;
+
+const SCORES: ScoreName[] = ['evolve', 'omega', 'journey', 'dreamtales', 'multeity'];
+const MODES = Object.keys(SCALES) as ScaleMode[];
+const BASS_INSTRUMENTS: BassInstrument[] = ['classicBass', 'glideBass', 'ambientDrone', 'resonantGliss', 'hypnoticDrone', 'livingRiff', 'none'];
+const MELODY_INSTRUMENTS: MelodyInstrument[] = ['synth', 'organ', 'mellotron', 'theremin', 'none'];
+const BASS_TECHNIQUES: BassTechnique[] = ['arpeggio', 'portamento', 'glissando', 'glide', 'pulse'];
+const DRUM_PATTERNS: DrumSettings['pattern'][] = ['ambient_beat', 'composer', 'none'];
+const VOLUME_PARTS: (keyof SceneState['volumes'])[] = ['bass', 'melody', 'accompaniment', 'drums', 'sparkles', 'pads'];
+
+// Short keys keep the link short enough to paste anywhere.
+type Payload = {
+    seed: number;
+    style: ScoreName;
+    key: [number, ScaleMode];
+    bpm: number;
+    ramp: number;
+    dens: number;
+    motif: number;
+    evo: 0 | 1;
+    inst: [BassInstrument, BassTechnique, MelodyInstrument, AccompanimentInstrument];
+    drums: DrumSettings['pattern'];
+    kit?: DrumKitName;
+    tex: [0 | 1, 0 | 1]; // sparkles, pads
+    vol: number[];       // percent, in VOLUME_PARTS order
+    eq: number[];        // tenths of a dB per band
+};
+
+export type DecodedShareLink = {
+    state: SceneState;
+    ignored: string[]; // Fields that were missing or invalid and kept their fallback values.
+};
+
+const toBase64Url = (text: string) => btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (text: string) => atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+export function encodeShareLink(state: SceneState): string {
+    const { settings } = state;
+    const { bass, melody, accompaniment } = settings.instrumentSettings;
+    const payload: Payload = {
+        seed: settings.seed,
+        style: settings.score,
+        key: [settings.key.root, settings.key.mode],
+        bpm: settings.bpm,
+        ramp: settings.tempoRampBars,
+        dens: Math.round(settings.density * 100) / 100,
+        motif: Math.round(settings.motifRecurrence * 100) / 100,
+        evo: settings.evolution ? 1 : 0,
+        inst: [bass.name, bass.technique, melody.name, accompaniment.name],
+        drums: settings.drumSettings.pattern,
+        kit: settings.drumSettings.kit,
+        tex: [settings.textureSettings.sparkles.enabled ? 1 : 0, settings.textureSettings.pads.enabled ? 1 : 0],
+        vol: VOLUME_PARTS.map(part => Math.round(state.volumes[part] * 100)),
+        eq: state.eq.map(gain => Math.round(gain * 10)),
+    };
+    return `v=${SHARE_LINK_VERSION}&s=${toBase64Url(JSON.stringify(payload))}`;
+}
+
+const isNumber = (value: unknown, min: number, max: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+/**
+ * Reads a link made by encodeShareLink. Returns null when the hash holds no link at all and
+ * throws an Error with a readable message when it holds one that cannot be used.
+ */
+export function decodeShareLink(hash: string, fallback: SceneState): DecodedShareLink | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const version = params.get('v');
+    const encoded = params.get('s');
+    if (version === null || encoded === null) return null;
+    if (Number(version) !== SHARE_LINK_VERSION) {
+        throw new Error(`This link was made by a different version of AuraGroove (link version ${version}).`);
+    }
+
+    let data: Partial<Record<keyof Payload, unknown>>;
+    try {
+        data = JSON.parse(fromBase64Url(encoded));
+    } catch {
+        throw new Error('The link is damaged and could not be read.');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('The link is damaged and could not be read.');
+    }
+
+    const ignored: string[] = [];
+    // Runs `apply` when `valid` holds for the field, otherwise notes it as ignored.
+    const field = <K extends keyof Payload>(name: K, valid: (value: unknown) => boolean, apply: (value: Payload[K]) => void) => {
+        if (valid(data[name])) apply(data[name] as Payload[K]);
+        else ignored.push(name);
+    };
+
+    const settings = structuredClone(fallback.settings);
+    const volumes = { ...fallback.volumes };
+    let eq = fallback.eq;
+
+    field('seed', v => isNumber(v, 0, MAX_SEED) && Number.isInteger(v), v => { settings.seed = v; });
+    field('style', v => isOneOf(SCORES, v), v => { settings.score = v; });
+    field('key', v => Array.isArray(v) && isNumber(v[0], 0, 11) && Number.isInteger(v[0]) && isOneOf(MODES, v[1]),
+        ([root, mode]) => { settings.key = { root, mode }; });
+    field('bpm', v => isNumber(v, 60, 160), v => { settings.bpm = Math.round(v); });
+    field('ramp', v => isNumber(v, 0, 64) && Number.isInteger(v), v => { settings.tempoRampBars = v; });
+    field('dens', v => isNumber(v, 0, 1), v => { settings.density = v; });
+    field('motif', v => isNumber(v, 0, 1), v => { settings.motifRecurrence = v; });
+    field('evo', v => v === 0 || v === 1, v => { settings.evolution = v === 1; });
+    field('inst', v => Array.isArray(v) && isOneOf(BASS_INSTRUMENTS, v[0]) && isOneOf(BASS_TECHNIQUES, v[1]) &&
+        isOneOf(MELODY_INSTRUMENTS, v[2]) && isOneOf(MELODY_INSTRUMENTS, v[3]),
+        ([bass, technique, melody, accompaniment]) => {
+            settings.instrumentSettings.bass = { ...settings.instrumentSettings.bass, name: bass, technique };
+            settings.instrumentSettings.melody = { ...settings.instrumentSettings.melody, name: melody };
+            settings.instrumentSettings.accompaniment = { ...settings.instrumentSettings.accompaniment, name: accompaniment };
+        });
+    field('drums', v => isOneOf(DRUM_PATTERNS, v), v => { settings.drumSettings = { ...settings.drumSettings, pattern: v, enabled: v !== 'none' }; });
+    // Links from before drum kits have no kit and played the standard one.
+    field('kit', v => v === undefined || isOneOf(DRUM_KIT_NAMES, v), v => { settings.drumSettings.kit = v ?? DEFAULT_DRUM_KIT; });
+    field('tex', v => Array.isArray(v) && v.length === 2 && v.every(flag => flag === 0 || flag === 1), ([sparkles, pads]) => {
+        settings.textureSettings = {
+            sparkles: { ...settings.textureSettings.sparkles, enabled: sparkles === 1 },
+            pads: { ...settings.textureSettings.pads, enabled: pads === 1 },
+        };
+    });
+    field('vol', v => Array.isArray(v) && v.length === VOLUME_PARTS.length && v.every(volume => isNumber(volume, 0, 100)), v => {
+        VOLUME_PARTS.forEach((part, i) => { volumes[part] = v[i] / 100; });
+    });
+    field('eq', v => Array.isArray(v) && v.length === fallback.eq.length && v.every(gain => isNumber(gain, -100, 100)), v => {
+        eq = v.map(gain => gain / 10);
+    });
+
+    return { state: { ...fallback, settings, volumes, eq }, ignored };
+}
@@ -11,13 +11,16 @@ const SPARKLE_SAMPLES = [
     '/assets/music/droplets/ocean.mp3',
 ];
 
+// How many sparkles the worker chooses from.
+export const SPARKLE_VARIANTS = SPARKLE_SAMPLES.length;
+
 export class SparklePlayer {
-    private audioContext: AudioContext;
+    private audioContext: BaseAudioContext;
     private gainNode: GainNode;
     private buffers: AudioBuffer[] = [];
     public isInitialized = false;
 
-    constructor(audioContext: AudioContext, destination: AudioNode) {
+    constructor(audioContext: BaseAudioContext, destination: AudioNode) {
         this.audioContext = audioContext;
         this.gainNode = this.audioContext.createGain();
         this.gainNode.connect(destination);
@@ -39,10 +42,11 @@ export class SparklePlayer {
         }
     }
 
-    public playRandomSparkle(time: number) {
+    // The worker picks the sparkle, so a replay or an export with the same seed plays the same one.
+    public playSparkle(time: number, variant: number) {
         if (!this.isInitialized || this.buffers.length === 0) return;
         
-        const buffer = this.buffers[Math.floor(Math.random() * this.buffers.length)];
+        const buffer = this.buffers[variant % this.buffers.length];
         const source = this.audioContext.createBufferSource();
         source.buffer = buffer;
         source.connect(this.gainNode);
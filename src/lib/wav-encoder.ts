@@ -0,0 +1,52 @@
+/**
+ * PCM WAV encoding for rendered AudioBuffers (16- or 24-bit, interleaved).
+ */
+export type WavBitDepth = 16 | 24;
+
+const HEADER_BYTES = 44;
+
+function writeString(view: DataView, offset: number, value: string) {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+}
+
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth): Blob {
+    const channels = buffer.numberOfChannels;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channels * bytesPerSample;
+    const dataBytes = buffer.length * blockAlign;
+    const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataBytes, true);
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);           // fmt chunk size
+    view.setUint16(20, 1, true);            // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataBytes, true);
+
+    const data = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+    const maxValue = 2 ** (bitDepth - 1) - 1;
+    let offset = HEADER_BYTES;
+    for (let i = 0; i < buffer.length; i++) {
+        for (let channel = 0; channel < channels; channel++) {
+            const sample = Math.max(-1, Math.min(1, data[channel][i]));
+            const value = Math.round(sample * maxValue);
+            if (bitDepth === 16) {
+                view.setInt16(offset, value, true);
+            } else {
+                // Little-endian 24-bit: the low two bytes, then the signed high byte.
+                view.setUint16(offset, value & 0xffff, true);
+                view.setInt8(offset + 2, value >> 16);
+            }
+            offset += bytesPerSample;
+        }
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+}
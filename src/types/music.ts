@@ -16,7 +16,20 @@ export type SamplerNote = {
     velocity?: number;    // How loud to play it (0-1), optional.
 };
 
-export type DrumsScore = SamplerNote[];
+// The parts of a drum kit. Composers write for these and the selected kit decides how each one sounds.
+export type DrumRole = 'kick' | 'snare' | 'hat' | 'openHat' | 'crash' | 'tomLow' | 'tomMid' | 'tomHigh' | 'perc';
+export type DrumKitName = 'standard' | 'lofi' | 'brushes' | 'electronic' | 'organic';
+
+// A hit on one of the kit's roles.
+export type DrumHit = {
+    role: DrumRole;
+    time: number;         // When to play it, in seconds, relative to the start of the audio chunk.
+    velocity?: number;    // How loud to play it (0-1), optional.
+    variant?: number;     // Which of the role's samples to play, for roles with several (percussion).
+    pitch?: number;       // Semitones up or down from the kit's tuning, optional.
+};
+
+export type DrumsScore = DrumHit[];
 export type EffectsScore = SamplerNote[];
 
 // A score is an object containing arrays of notes for each part.
@@ -35,6 +48,7 @@ export type BassInstrument = 'classicBass' | 'glideBass' | 'ambientDrone' | 'res
 export type MelodyInstrument = 'synth' | 'organ' | 'mellotron' | 'theremin' | 'none';
 export type AccompanimentInstrument = MelodyInstrument;
 export type InstrumentPart = 'bass' | 'melody' | 'accompaniment' | 'drums' | 'effects' | 'sparkles' | 'pads';
+export type MixerPart = Exclude<InstrumentPart, 'effects'>; // The parts with their own mixer controls.
 export type BassTechnique = 'arpeggio' | 'portamento' | 'glissando' | 'glide' | 'pulse';
 
 
@@ -56,6 +70,7 @@ export type InstrumentSettings = {
 
 export type DrumSettings = {
     pattern: 'ambient_beat' | 'composer' | 'none';
+    kit: DrumKitName;
     volume: number;
 };
 
@@ -80,8 +95,91 @@ export type TimerSettings = {
     isActive: boolean;
 };
 
+// A part's place in the stereo image and its sends to the master bus effects.
+export type ChannelSettings = {
+    pan: number;       // -1 (left) to 1 (right)
+    reverbSend: number; // 0-1
+    delaySend: number;  // 0-1
+    autoPan: boolean;   // Let the part drift slowly around its pan position.
+};
+
+// A signal level as read from an AnalyserNode, linear (1 = 0 dBFS).
+export type Level = {
+    peak: number;
+    rms: number;
+};
+
+export type MixerLevels = {
+    parts: Record<MixerPart, Level>; // After volume and mute/solo: what each part adds to the mix.
+    master: Level & { clipped: boolean }; // The bus output, loudest channel; `clipped` is measured before the limiter.
+};
+
+// How much the engine asks of the device; 'auto' picks a profile from measured headroom.
+export type PerformanceProfile = 'low' | 'balanced' | 'high';
+export type PerformanceMode = 'auto' | PerformanceProfile;
+
+export type PerformanceStatus = {
+    mode: PerformanceMode;
+    profile: PerformanceProfile; // The profile in use.
+    load: number; // Share of the audio thread's time the worklets take, 0-1.
+    underruns: number; // Since playback started.
+    melodyVoices: VoiceUsage | null; // Null until the instruments exist.
+};
+
+// How the melody's voice pool is being used.
+export type VoiceUsage = {
+    voices: number;
+    active: number; // sounding now, release tails included
+    peak: number; // the most ever sounding at once
+    stolen: number; // notes that had to take a sounding voice
+};
+
+// Note values the master delay locks to; 'd' marks a dotted value.
+export type DelayDivision = '1/16' | '1/8' | '1/8d' | '1/4' | '1/4d' | '1/2';
+
+// The effects on the master bus, after the EQ. Each one can be bypassed on its own.
+export type MasterBusSettings = {
+    reverb: {
+        enabled: boolean;
+        mix: number;   // 0-1, how much of the mix is sent to the reverb
+        decay: number; // seconds until the tail has fallen by 60 dB
+    };
+    delay: {
+        enabled: boolean;
+        mix: number;      // 0-1
+        feedback: number; // 0-0.9
+        division: DelayDivision;
+    };
+    compressor: {
+        enabled: boolean;
+        threshold: number; // dB
+        ratio: number;
+    };
+    limiter: {
+        enabled: boolean;
+        ceiling: number; // dBFS; nothing leaves the bus above it
+    };
+};
+
+export type ExportSettings = {
+    minutes: number;
+    bitDepth: 16 | 24;
+};
+
 export type ScoreName = 'evolve' | 'omega' | 'journey' | 'dreamtales' | 'multeity';
 
+// Song-form sections the worker plans above the bar-by-bar composers.
+export type SectionName = 'intro' | 'development' | 'climax' | 'breakdown' | 'outro';
+
+export type ScaleMode =
+    | 'ionian' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'aeolian' | 'locrian'
+    | 'harmonicMinor' | 'melodicMinor' | 'majorPentatonic' | 'minorPentatonic' | 'wholeTone';
+
+export type KeySettings = {
+    root: number; // Pitch class of the tonic, 0 (C) to 11 (B).
+    mode: ScaleMode;
+};
+
 // Settings sent from the UI to the main engine/worker.
 export type WorkerSettings = {
     bpm: number;
@@ -90,4 +188,94 @@ export type WorkerSettings = {
     instrumentSettings: InstrumentSettings;
     textureSettings: Omit<TextureSettings, 'volume'>;
     density: number; // Controls musical density, 0 to 1
+    key: KeySettings;
+    seed: number; // Seeds the worker's PRNG; same seed + settings => same score.
+    tempoRampBars: number; // Bars over which a BPM change glides to its target; 0 jumps at the next bar.
+    motifRecurrence: number; // 0-1, how often the melody brings back material it has played before.
+    evolution: boolean; // Let the worker's evolution engine mutate the session's genome while playing.
+};
+
+// The genes of a session (see GENERATIVE_MUSIC_CONCEPT.md). Created when a style starts
+// and slowly mutated by the worker's EvolutionEngine.
+export type MusicalGenome = {
+    style: ScoreName;
+    generation: number;
+    mode: ScaleMode;
+    progression: number[];   // 4-8 chord roots (scale degrees), one per chord slot.
+    bassRhythm: number[];    // 16 step weights, 0-1: how likely a bass note on that step survives.
+    drumRhythm: number[];    // 16 step accents, 0-1.
+    densityCurve: number[];  // Density factors spread over a cycle of bars.
+    axiom: number[];         // 3-5 scale degrees: the melodic theme the motif memory returns to.
+    instruments: {
+        bass: BassInstrument;
+        melody: MelodyInstrument;
+        accompaniment: AccompanimentInstrument;
+    };
+};
+
+// Messages from the worker to the main thread.
+export type WorkerMessage = {
+    type: 'score' | 'error' | 'debug' | 'sparkle' | 'pad' | 'section' | 'genome';
+    score?: Score;
+    error?: string;
+    message?: string;
+    data?: any;
+    padName?: string;
+    variant?: number;     // Which sparkle sample plays.
+    time?: number;        // Absolute AudioContext time the message applies to.
+    barIndex?: number;
+    barDuration?: number;
+    section?: SectionName;
+    bars?: number;
+    genome?: MusicalGenome;
+};
+
+// A bar as it was played during a session, in the order it was heard.
+export type RecordedBar = {
+    barIndex: number;
+    barDuration: number; // seconds; bars vary in length during a tempo ramp.
+    score: Score;
+};
+
+// One entry of a recorded session, in the order the engine received it. Sparkles and pads
+// are timed relative to the start of their bar.
+export type SessionEvent =
+    | { type: 'settings'; barIndex: number; settings: WorkerSettings }
+    | { type: 'sparkle'; barIndex: number; offset: number; variant: number }
+    | { type: 'pad'; barIndex: number; offset: number; padName: string }
+    | { type: 'score'; barIndex: number; barDuration: number; score: Score };
+
+// A session as recorded by the engine; replaying it bypasses the worker entirely.
+export type SessionLog = {
+    version: number;
+    recordedAt: string; // ISO date
+    settings: WorkerSettings; // In effect when Play was pressed.
+    events: SessionEvent[];
+};
+
+// Everything a scene restores: the composition, the mix and the timer length.
+export type SceneState = {
+    settings: WorkerSettings; // Includes the seed, so a scene plays back the same music.
+    volumes: Record<MixerPart, number>;
+    channels: Record<MixerPart, ChannelSettings>;
+    eq: number[]; // dB per EQ band
+    masterBus: MasterBusSettings;
+    timerMinutes: number;
+};
+
+// A named user preset.
+export type Scene = {
+    id: string;
+    name: string;
+    updatedAt: string; // ISO date
+    state: SceneState;
+};
+
+// The crossfader between two saved scenes.
+export type SceneMorph = {
+    fromId: string | null; // Scene A
+    toId: string | null;   // Scene B
+    seconds: number;       // How long a full sweep from one side to the other takes.
+    position: number;      // 0 = scene A, 1 = scene B
+    isRunning: boolean;
 };